@@ -1,7 +1,27 @@
 import { jest } from '@jest/globals'
-import { autoRouter } from '../auto-router'
+import { autoRouter, scanRoutes } from '../auto-router'
 import { mkdirSync, writeFileSync, rmSync, chmodSync, symlinkSync, existsSync } from 'fs'
 import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { spawnSync } from 'child_process'
+import { once } from 'events'
+import type { AddressInfo } from 'net'
+import express from 'express'
+import type { RouteDiagnostic } from '../diagnostics'
+import { createWorkerRouter } from '../worker-manifest'
+import type { TrailingSlashPolicy } from '../constants'
+
+/** Send one request to an Express app listening on an ephemeral port; redirects are not followed. */
+async function requestExpress(app: express.Express, path: string): Promise<{ status: number; body: string; location: string | null }> {
+  const server = app.listen(0)
+  await once(server, 'listening')
+  try {
+    const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`, { redirect: 'manual' })
+    return { status: response.status, body: await response.text(), location: response.headers.get('location') }
+  } finally {
+    server.close()
+  }
+}
 
 describe('autoRouter', () => {
   const testDir = join(process.cwd(), '__tests__', 'controllers')
@@ -1593,4 +1613,1495 @@ describe('autoRouter', () => {
 
     rmSync(dir, { recursive: true, force: true })
   })
+
+  it('should register [...rest] files and directories as named wildcards', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-rest-param')
+    mkdirSync(join(dir, 'files', '[...path]'), { recursive: true })
+    writeFileSync(join(dir, 'get-docs-[...slug].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'files', '[...path]', 'get.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'files', '[...path]', 'get-meta.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/docs/*slug', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/files/*path', expect.any(Function))
+    expect(mockApp.$routes!.all).toHaveLength(2)
+    expect(errors.some(msg => msg.includes('get-meta.js'))).toBe(true)
+    expect(errors.some(msg => msg.includes('must be the last segment'))).toBe(true)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register an optional [[param]] file as both route variants', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-optional-param')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-posts-[[page]].js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+    await autoRouter({ dir, prefix: '/api', forceProtected: ['/api/posts/*'] })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/posts', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/posts/:page', expect.any(Function))
+    expect(mockApp.$routes!.all).toEqual([
+      { method: 'GET', path: '/api/posts', requiresAuth: false },
+      { method: 'GET', path: '/api/posts/:page', requiresAuth: true },
+    ])
+    expect(mockApp.$registeredRoutes.has('GET /api/posts')).toBe(true)
+    expect(mockApp.$registeredRoutes.has('GET /api/posts/:page')).toBe(true)
+
+    logSpy.mockRestore()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an optional [[param]] file whose expanded form is already registered', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-optional-param-dup')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-posts-[[page]].js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined, $registeredRoutes: new Set(['GET /api/posts/:page']) }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).not.toHaveBeenCalled()
+    expect(errors).toContain('   ❌ Duplicate route: GET /api/posts/:page')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register typed params as plain :name and record their types', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-typed-param')
+    mkdirSync(join(dir, 'orgs', '[orgId:uuid]'), { recursive: true })
+    writeFileSync(join(dir, 'orgs', '[orgId:uuid]', 'get-members-[id:int].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-[slug].js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+    await autoRouter({ dir, prefix: '/api' })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/orgs/:orgId/members/:id', expect.any(Function))
+    const typed = mockApp.$routes!.all.find((route: any) => route.path === '/api/orgs/:orgId/members/:id')
+    expect(typed.paramTypes).toEqual({ orgId: 'uuid', id: 'int' })
+    const untyped = mockApp.$routes!.all.find((route: any) => route.path === '/api/:slug')
+    expect(untyped.paramTypes).toBeUndefined()
+
+    logSpy.mockRestore()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register inline regex for typed params when inlineParamRegex is enabled', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-typed-param-inline')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-[id:int].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-reports-[y:year].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-[slug].js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+    await autoRouter({ dir, prefix: '/api', inlineParamRegex: true, paramTypes: { year: /\d{4}/ } })(mockApp)
+
+    // A typed and an untyped param at the same position are distinct routes
+    expect(mockApp.get).toHaveBeenCalledWith('/api/:id(\\d+)', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/reports/:y(\\d{4})', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/:slug', expect.any(Function))
+    expect(mockApp.$routes!.all.map((route: any) => route.path)).toContain('/api/:id')
+
+    logSpy.mockRestore()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should analyze overlaps on the path the framework gets, typed params unenforced unless inlined', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-typed-param-overlap')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-[id:int].js'), 'export default (req, res) => res.send(`int ${req.params.id}`)')
+    writeFileSync(join(dir, 'get-[slug].js'), 'export default (req, res) => res.send(`slug ${req.params.slug}`)')
+
+    const plain = express()
+    const diagnostics: RouteDiagnostic[] = []
+    await autoRouter({ dir, prefix: '/api', logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) })(plain as any)
+    expect((await requestExpress(plain, '/api/hello')).body).toBe('int hello')
+    expect(diagnostics.map(({ code, route }) => `${code} ${route}`)).toEqual(['AR_AMBIGUOUS_ROUTES GET /api/:slug'])
+    expect((plain as any).$routes.overlaps).toEqual([
+      { kind: 'ambiguous', route: { method: 'GET', path: '/api/:slug', file: join(dir, 'get-[slug].js') }, shadowedBy: { method: 'GET', path: '/api/:id', file: join(dir, 'get-[id:int].js') } },
+    ])
+    expect((await scanRoutes({ dir, prefix: '/api' })).diagnostics).toEqual(diagnostics)
+
+    const inlined = express()
+    const inlinedDiagnostics: RouteDiagnostic[] = []
+    await autoRouter({ dir, prefix: '/api', inlineParamRegex: true, logging: false, onDiagnostic: diagnostic => inlinedDiagnostics.push(diagnostic) })(inlined as any)
+    expect((await requestExpress(inlined, '/api/hello')).body).toBe('slug hello')
+    expect((await requestExpress(inlined, '/api/42')).body).toBe('int 42')
+    expect(inlinedDiagnostics).toEqual([])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown param type and throw on invalid custom types', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-typed-param-unknown')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-[id:num].js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).not.toHaveBeenCalled()
+    expect(errors.some(msg => msg.includes('Unknown parameter type "num"'))).toBe(true)
+    expect(() => autoRouter({ dir, paramTypes: { bad: '(' } })).toThrow(/Invalid param type "bad"/)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should skip (group) directories in the URL and record the group on RouteInfo', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-route-groups')
+    mkdirSync(join(dir, '(admin)', 'reports'), { recursive: true })
+    mkdirSync(join(dir, '(public)'), { recursive: true })
+    writeFileSync(join(dir, '(admin)', 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(admin)', 'reports', 'get.js'), 'export default async (ctx) => {}')
+    writeFileSync(
+      join(dir, '(public)', 'get-health.js'),
+      'export default { handler: async (ctx) => {}, meta: { tags: ["Ops"] }, __routeConfigBrand: true }'
+    )
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => { })
+
+    await autoRouter({ dir, prefix: '/api', groupTags: { public: ['Public', 'Ops'] } })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/users', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/reports', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/health', expect.any(Function))
+    const byPath = (path: string) => mockApp.$routes!.all.find((route: any) => route.path === path)
+    expect(byPath('/api/users').groups).toEqual(['admin'])
+    expect(byPath('/api/reports').groups).toEqual(['admin'])
+    expect(byPath('/api/health').groups).toEqual(['public'])
+    expect(byPath('/api/health').meta).toEqual({ tags: ['Ops', 'Public'] })
+    expect(byPath('/api/users').meta).toBeUndefined()
+
+    logSpy.mockRestore()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should let forcePublic/forceProtected target a (group)', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-route-groups-auth')
+    mkdirSync(join(dir, '(admin)'), { recursive: true })
+    mkdirSync(join(dir, '(public)'), { recursive: true })
+    writeFileSync(join(dir, '(admin)', 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(admin)', 'post-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(public)', 'get-health.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), post: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      defaultRequiresAuth: true,
+      forcePublic: ['(public)', '(missing)'],
+      forceProtected: ['POST (admin)'],
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.$routes!.publicRoutes).toEqual([{ method: 'GET', path: '/api/health' }])
+    expect(mockApp.$routes!.protectedRoutes).toHaveLength(2)
+    expect(warnings.some(msg => msg.includes('forcePublic pattern "(missing)" did not match'))).toBe(true)
+    expect(warnings.some(msg => msg.includes('"POST (admin)"'))).toBe(false)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report (group) duplicates and reject invalid group names', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-route-groups-dup')
+    mkdirSync(join(dir, '(admin)'), { recursive: true })
+    mkdirSync(join(dir, '(public)'), { recursive: true })
+    mkdirSync(join(dir, '()'), { recursive: true })
+    writeFileSync(join(dir, '(admin)', 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(public)', 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '()', 'get-empty.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.$routes!.all).toHaveLength(1)
+    expect(errors).toContain('   ❌ Duplicate route: GET /api/users')
+    expect(errors.some(msg => msg.includes('Invalid route group "()"'))).toBe(true)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should cascade directory _meta into routes, child directories and createHandler meta winning', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-directory-meta')
+    mkdirSync(join(dir, 'admin', 'reports'), { recursive: true })
+    writeFileSync(join(dir, '_meta.js'), 'export default { tags: ["Root"], description: "root" }')
+    writeFileSync(join(dir, 'admin', '_meta.js'), 'export default { requiresAuth: true, tags: ["Admin"] }')
+    writeFileSync(join(dir, 'admin', 'reports', '_meta.js'), 'export default { description: "reports" }')
+    writeFileSync(join(dir, 'get-health.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'admin', 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(
+      join(dir, 'admin', 'get-status.js'),
+      'export default { handler: async (ctx) => {}, meta: { requiresAuth: false, summary: "Status" }, __routeConfigBrand: true }'
+    )
+    writeFileSync(join(dir, 'admin', 'reports', 'get.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual([])
+    expect(mockApp.$routes!.all).toHaveLength(4)
+    const byPath = (path: string) => mockApp.$routes!.all.find((route: any) => route.path === path)
+    expect(byPath('/api/health')).toMatchObject({ requiresAuth: false, meta: { tags: ['Root'], description: 'root' } })
+    expect(byPath('/api/admin/users')).toMatchObject({ requiresAuth: true, meta: { requiresAuth: true, tags: ['Admin'], description: 'root' } })
+    expect(byPath('/api/admin/status')).toMatchObject({ requiresAuth: false, meta: { requiresAuth: false, tags: ['Admin'], summary: 'Status' } })
+    expect(byPath('/api/admin/reports')).toMatchObject({ requiresAuth: true, meta: { tags: ['Admin'], description: 'reports' } })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should rank directory _meta requiresAuth below force patterns and above defaultRequiresAuth', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-directory-meta-auth')
+    mkdirSync(join(dir, 'public'), { recursive: true })
+    writeFileSync(join(dir, 'public', '_meta.js'), 'export default { requiresAuth: false }')
+    writeFileSync(join(dir, 'public', 'get-docs.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'public', 'get-secret.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-me.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      defaultRequiresAuth: true,
+      forceProtected: ['/api/public/secret'],
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.$routes!.publicRoutes).toEqual([{ method: 'GET', path: '/api/public/docs' }])
+    expect(mockApp.$routes!.protectedRoutes).toEqual(expect.arrayContaining([
+      { method: 'GET', path: '/api/me' },
+      { method: 'GET', path: '/api/public/secret' },
+    ]))
+    expect(warnings.some(msg => msg.includes('has no effect'))).toBe(false)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report an invalid directory _meta and fall back to the parent meta', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-directory-meta-invalid')
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    writeFileSync(join(dir, '_meta.js'), 'export default { tags: ["Root"] }')
+    writeFileSync(join(dir, 'users', '_meta.js'), 'export default ["not", "an", "object"]')
+    writeFileSync(join(dir, 'users', 'get.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors[0]).toBe(`❌ Invalid directory meta: ${join(dir, 'users', '_meta.js')}`)
+    expect(mockApp.$routes!.all).toEqual([
+      { method: 'GET', path: '/api/users', requiresAuth: false, meta: { tags: ['Root'] } },
+    ])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should prepend directory _middleware chains root to leaf before createHandler middlewares', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-directory-middleware')
+    mkdirSync(join(dir, 'admin'), { recursive: true })
+    writeFileSync(join(dir, '_middleware.js'), 'export default function rootMw(ctx, next) { return next() }')
+    writeFileSync(
+      join(dir, 'admin', '_middleware.js'),
+      'export default [function authMw(ctx, next) { return next() }, function tenantMw(ctx, next) { return next() }]'
+    )
+    writeFileSync(join(dir, 'get-health.js'), 'export default async (ctx) => {}')
+    writeFileSync(
+      join(dir, 'admin', 'post-users.js'),
+      'export default { handler: async (ctx) => {}, middlewares: [function configMw(ctx, next) { return next() }], __routeConfigBrand: true }'
+    )
+
+    const mockApp: any = { get: jest.fn(), post: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual([])
+    const getArgs = mockApp.get.mock.calls[0]
+    expect(getArgs[0]).toBe('/api/health')
+    expect(getArgs.slice(1, -1).map((fn: Function) => fn.name)).toEqual(['rootMw'])
+    const postArgs = mockApp.post.mock.calls[0]
+    expect(postArgs[0]).toBe('/api/admin/users')
+    expect(postArgs.slice(1, -1).map((fn: Function) => fn.name)).toEqual(['rootMw', 'authMw', 'tenantMw', 'configMw'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report an invalid directory _middleware and keep the parent chain', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-directory-middleware-invalid')
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    writeFileSync(join(dir, '_middleware.js'), 'export default function rootMw(ctx, next) { return next() }')
+    writeFileSync(join(dir, 'users', '_middleware.js'), 'export default { not: "a middleware" }')
+    writeFileSync(join(dir, 'users', 'get.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors[0]).toBe(`❌ Invalid directory middleware: ${join(dir, 'users', '_middleware.js')}`)
+    const args = mockApp.get.mock.calls[0]
+    expect(args.slice(1, -1).map((fn: Function) => fn.name)).toEqual(['rootMw'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register named method exports from route.ts files with convention: module', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-module-convention')
+    mkdirSync(join(dir, 'users', '[id]'), { recursive: true })
+    writeFileSync(join(dir, 'route.js'), 'export const GET = async (ctx) => {}')
+    writeFileSync(
+      join(dir, 'users', '[id]', 'route.js'),
+      [
+        'export async function GET(ctx) {}',
+        'export const DELETE = { handler: async (ctx) => {}, meta: { requiresAuth: true }, __routeConfigBrand: true }',
+      ].join('\n')
+    )
+    writeFileSync(join(dir, 'users', '[id]', 'helpers.js'), 'export const format = (user) => user')
+    writeFileSync(join(dir, 'users', 'get-legacy.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      convention: 'module',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual([])
+    expect(mockApp.get).toHaveBeenCalledWith('/api', expect.any(Function))
+    expect(mockApp.get).toHaveBeenCalledWith('/api/users/:id', expect.any(Function))
+    expect(mockApp.delete).toHaveBeenCalledWith('/api/users/:id', expect.any(Function))
+    expect(mockApp.$routes!.all).toHaveLength(3)
+    expect(mockApp.$routes!.protectedRoutes).toEqual([{ method: 'DELETE', path: '/api/users/:id' }])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should explain both conventions when a route module exports the wrong shape', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-module-convention-errors')
+    mkdirSync(join(dir, 'default'), { recursive: true })
+    mkdirSync(join(dir, 'lowercase'), { recursive: true })
+    mkdirSync(join(dir, 'object'), { recursive: true })
+    mkdirSync(join(dir, '(a)', 'dup'), { recursive: true })
+    mkdirSync(join(dir, '(b)', 'dup'), { recursive: true })
+    writeFileSync(join(dir, 'default', 'route.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'lowercase', 'route.js'), 'export const get = async (ctx) => {}')
+    writeFileSync(join(dir, 'object', 'route.js'), 'export const GET = { handler: async (ctx) => {} }')
+    writeFileSync(join(dir, '(a)', 'dup', 'route.js'), 'export const GET = async (ctx) => {}')
+    writeFileSync(join(dir, '(b)', 'dup', 'route.js'), 'export const POST = async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), post: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      convention: 'module',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.$routes!.all).toHaveLength(1)
+    expect(errors).toContain("   ❌ With convention: 'module', route.ts files export one handler per HTTP method, a default export is not allowed")
+    expect(errors).toContain('   ❌ Detected other exports: get')
+    expect(errors).toContain('   ❌ Current type of export "GET": object')
+    expect(errors).toContain('      ✅ export const GET = async (ctx) => { ... }')
+    expect(errors).toContain('      ❌ Not supported: export const GET = { handler, meta }')
+    expect(errors).toContain("      💡 Tip: default exports belong to method-named files (get-users.ts) with convention: 'file'")
+    expect(errors).toContain('   ❌ Duplicate route module: /api/dup')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should point to convention: module when a method-named file uses named method exports', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-file-convention-hint')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export const GET = async (ctx) => {}')
+    writeFileSync(join(dir, 'get-posts.js'), 'export default "not a handler"')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).not.toHaveBeenCalled()
+    expect(errors).toContain('   ❌ Detected named exports: GET')
+    expect(errors).toContain("   💡 Tip: To export one handler per HTTP method (export const GET = ...), use convention: 'module' with route.ts files")
+    expect(errors).toContain('   ❌ Current export type: string')
+    expect(errors).toContain("      💡 Tip: for export const GET / POST in route.ts files, use convention: 'module'")
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should accept a configured method set and register all- files with app.all()', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-custom-methods')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'search-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'propfind-[...path].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'all-health.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), search: jest.fn(), propfind: jest.fn(), all: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      methods: ['GET', 'search', 'propfind'],
+      defaultRequiresAuth: true,
+      forcePublic: ['SEARCH /api/users', 'ALL /api/health'],
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual([])
+    expect(mockApp.search).toHaveBeenCalledWith('/api/users', expect.any(Function))
+    expect(mockApp.propfind).toHaveBeenCalledWith('/api/*path', expect.any(Function))
+    expect(mockApp.all).toHaveBeenCalledWith('/api/health', expect.any(Function))
+    expect(mockApp.$routes!.publicRoutes).toEqual(expect.arrayContaining([
+      { method: 'SEARCH', path: '/api/users' },
+      { method: 'ALL', path: '/api/health' },
+    ]))
+    expect(mockApp.$routes!.protectedRoutes).toEqual(expect.arrayContaining([
+      { method: 'GET', path: '/api/users' },
+      { method: 'PROPFIND', path: '/api/*path' },
+    ]))
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject methods outside the configured set and report a framework without the method', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-custom-methods-rejected')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'report-sales.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'all-ping.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toContain('   ❌ File name must be a valid HTTP method or start with method- (get|post|put|delete|patch|head|options|all)')
+    expect(errors).toContain('   ❌ The app has no all() method, so catch-all routes cannot be registered')
+    expect(mockApp.$routes!.all).toEqual([])
+
+    expect(() => autoRouter({ dir, methods: ['m-search'] })).toThrow('Invalid HTTP method "m-search"')
+    expect(() => autoRouter({ dir, methods: [] })).toThrow('at least one HTTP method is required')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register one route per method for get+head- file names', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-multi-method')
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    mkdirSync(join(dir, '(a)'), { recursive: true })
+    mkdirSync(join(dir, '(b)'), { recursive: true })
+    writeFileSync(join(dir, 'get+head-health.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'put+patch.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(a)', 'get-posts.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '(b)', 'get+head-posts.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), head: jest.fn(), put: jest.fn(), patch: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/health', expect.any(Function))
+    expect(mockApp.head).toHaveBeenCalledWith('/api/health', expect.any(Function))
+    expect(mockApp.put).toHaveBeenCalledWith('/api/users', expect.any(Function))
+    expect(mockApp.patch).toHaveBeenCalledWith('/api/users', expect.any(Function))
+    expect(mockApp.head).toHaveBeenCalledWith('/api/posts', expect.any(Function))
+    expect(mockApp.get.mock.calls.filter((call: any[]) => call[0] === '/api/posts')).toHaveLength(1)
+    expect(mockApp.$routes!.all).toHaveLength(6)
+    expect(errors).toEqual([
+      `❌ Skip GET route: ${join(dir, '(b)', 'get+head-posts.js')}`,
+      '   ❌ Duplicate route: GET /api/posts',
+    ])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject unknown, repeated, wrong-cased or all methods in get+head- file names', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-multi-method-invalid')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get+foo-a.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get+get-b.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'all+get-c.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get+HEAD-d.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), head: jest.fn(), all: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.$routes!.all).toEqual([])
+    expect(errors).toContain('   ❌ Unknown HTTP method "foo" in "get+foo" (get|post|put|delete|patch|head|options|all)')
+    expect(errors).toContain('   ❌ HTTP method "get" is listed twice in "get+get"')
+    expect(errors).toContain('   ❌ "all" already matches every method and cannot be combined with others in "all+get"')
+    expect(errors).toContain('   ❌ File name uses "HEAD" — HTTP method prefix must be lowercase, e.g. "head"')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register routes in segment-wise specificity order and warn about ambiguous routes', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-specificity')
+    mkdirSync(join(dir, '[id]'), { recursive: true })
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    writeFileSync(join(dir, 'get-[...path].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-[slug].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '[id]', 'get-posts.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'get-[x].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get.mock.calls.map((call: any[]) => call[0])).toEqual([
+      '/api/users',
+      '/api/users/:x',
+      '/api/:id',
+      '/api/:slug',
+      '/api/:id/posts',
+      '/api/*path',
+    ])
+    expect(mockApp.$routes!.all.map((route: any) => route.path)).toEqual(mockApp.get.mock.calls.map((call: any[]) => call[0]))
+    expect(warnings).toEqual([
+      '⚠️  Ambiguous routes: GET /api/:id and GET /api/:slug match the same URLs',
+      `   ⚠️  ${join(dir, 'get-[id].js')} is registered first and handles them, not ${join(dir, 'get-[slug].js')}`,
+    ])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report routes shadowed by a route from an earlier controller directory', async () => {
+    const docsDir = join(process.cwd(), '__tests__', 'controllers-shadow-docs')
+    const apiDir = join(process.cwd(), '__tests__', 'controllers-shadow-api')
+    mkdirSync(docsDir, { recursive: true })
+    mkdirSync(apiDir, { recursive: true })
+    writeFileSync(join(docsDir, 'get-[...path].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(apiDir, 'get-health.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+    const onLog = (level: string, msg: string) => { if (level === 'warn') warnings.push(msg) }
+
+    await autoRouter({ dir: docsDir, prefix: '/api', onLog })(mockApp)
+    await autoRouter({ dir: apiDir, prefix: '/api', onLog })(mockApp)
+
+    expect(warnings).toEqual([
+      '⚠️  Unreachable route: GET /api/health is shadowed by GET /api/*path',
+      `   ⚠️  ${join(docsDir, 'get-[...path].js')} is registered first and matches every URL of ${join(apiDir, 'get-health.js')}`,
+    ])
+    expect(mockApp.$routes!.overlaps).toEqual([{
+      kind: 'shadowed',
+      route: { method: 'GET', path: '/api/health', file: join(apiDir, 'get-health.js') },
+      shadowedBy: { method: 'GET', path: '/api/*path', file: join(docsDir, 'get-[...path].js') },
+    }])
+
+    rmSync(docsDir, { recursive: true, force: true })
+    rmSync(apiDir, { recursive: true, force: true })
+  })
+
+  it('should register params glued to static text from file and directory names', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-mixed-segments')
+    mkdirSync(join(dir, 'v[version]'), { recursive: true })
+    writeFileSync(join(dir, 'get-files-[name].json.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-files-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'v[version]', 'get-status.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual([])
+    expect(mockApp.get.mock.calls.map((call: any[]) => call[0])).toEqual([
+      '/api/files/:name.json',
+      '/api/files/:id',
+      '/api/v:version/status',
+    ])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should apply pathCase to static segments and detect duplicates after the transform', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-path-case')
+    mkdirSync(join(dir, 'adminPanel'), { recursive: true })
+    writeFileSync(join(dir, 'adminPanel', 'get-userProfile-[userId].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-apiKeys.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-api-keys.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await autoRouter({
+      dir,
+      prefix: '/apiV1',
+      pathCase: 'kebab',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get.mock.calls.map((call: any[]) => call[0])).toEqual([
+      '/apiV1/api-keys',
+      '/apiV1/admin-panel/user-profile/:userId',
+    ])
+    expect(errors.some(msg => msg.includes('GET /apiV1/api-keys'))).toBe(true)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown pathCase when the router is created', () => {
+    expect(() => autoRouter({ pathCase: 'camel' as never })).toThrow(/Invalid pathCase "camel"/)
+  })
+
+  it('should register trailing-slash aliases or redirects per trailingSlash', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-trailing-slash')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-files-[...path].js'), 'export default async (ctx) => {}')
+
+    const ignoreApp: any = { get: jest.fn(), $routes: undefined }
+    await autoRouter({ dir, prefix: '/api', trailingSlash: 'ignore', logging: false })(ignoreApp)
+    expect(ignoreApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users', '/api/users/', '/api/files/*path'])
+    expect(ignoreApp.get.mock.calls[1][1]).toBe(ignoreApp.get.mock.calls[0][1])
+    expect(ignoreApp.$routes.all.map((route: any) => route.path)).toEqual(['/api/users', '/api/files/*path'])
+
+    const redirectApp: any = { get: jest.fn(), $routes: undefined }
+    await autoRouter({ dir, prefix: '/api', trailingSlash: 'redirect', logging: false })(redirectApp)
+    // The redirect goes first, so a non-strict router cannot serve `/api/users/` from the route
+    expect(redirectApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users/', '/api/users', '/api/files/*path'])
+    const redirect = redirectApp.get.mock.calls[0][1]
+
+    // Koa-style context
+    const koaCtx: any = { url: '/api/users/?page=2', set: jest.fn() }
+    redirect(koaCtx, async () => {})
+    expect(koaCtx.status).toBe(308)
+    expect(koaCtx.set).toHaveBeenCalledWith('Location', '/api/users?page=2')
+
+    // Express-style (req, res, next); a path without the slash is passed on
+    const res = { redirect: jest.fn() }
+    const next = jest.fn()
+    redirect({ originalUrl: '/api/users/' }, res, next)
+    expect(res.redirect).toHaveBeenCalledWith(308, '/api/users')
+    redirect({ originalUrl: '/api/users' }, res, next)
+    expect(res.redirect).toHaveBeenCalledTimes(1)
+    expect(next).toHaveBeenCalledTimes(1)
+
+    // Hoa-style ctx.req / ctx.res
+    const hoaCtx: any = { req: { pathname: '/api/users/', search: '' }, res: { redirect: jest.fn() } }
+    redirect(hoaCtx, async () => {})
+    expect(hoaCtx.res.redirect).toHaveBeenCalledWith('/api/users')
+    expect(hoaCtx.res.status).toBe(308)
+
+    const strictApp: any = { get: jest.fn(), $routes: undefined }
+    await autoRouter({ dir, prefix: '/api', trailingSlash: 'strict', logging: false })(strictApp)
+    expect(strictApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users', '/api/files/*path'])
+
+    // A rest route's handler sends `/api/files/a/` on to the framework's next route under 'strict'
+    const restNext = jest.fn()
+    const restCtx: any = { url: '/api/files/a/', set: jest.fn() }
+    await strictApp.get.mock.calls[1][1](restCtx, restNext)
+    expect(restNext).toHaveBeenCalledTimes(1)
+    expect(restCtx.status).toBeUndefined()
+    // ...and redirects it under 'redirect'
+    const restRedirectCtx: any = { url: '/api/files/a/', set: jest.fn() }
+    await redirectApp.get.mock.calls[2][1](restRedirectCtx, async () => {})
+    expect(restRedirectCtx.status).toBe(308)
+    expect(restRedirectCtx.set).toHaveBeenCalledWith('Location', '/api/files/a')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown trailingSlash when the router is created', () => {
+    expect(() => autoRouter({ trailingSlash: 'drop' as never })).toThrow(`Invalid trailingSlash "drop": expected 'strict', 'ignore', 'redirect'`)
+  })
+
+  it('should read name.method and Next-style file names per parseFileName', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-parse-file-name')
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    writeFileSync(join(dir, 'users', 'get.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', '[id].delete.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'stats.get+head.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'stats.fetch.js'), 'export default async (ctx) => {}')
+
+    const dotApp: any = { get: jest.fn(), head: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      parseFileName: 'name.method',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(dotApp)
+
+    expect(dotApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users', '/api/users/stats'])
+    expect(dotApp.head.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users/stats'])
+    expect(dotApp.delete.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users/:id'])
+    expect(errors.some(msg => msg.includes('Unknown HTTP method "fetch"'))).toBe(true)
+
+    rmSync(join(dir, 'users', 'stats.fetch.js'))
+    rmSync(join(dir, 'users', 'stats.get+head.js'))
+    rmSync(join(dir, 'users', 'get.js'))
+    rmSync(join(dir, 'users', '[id].delete.js'))
+    writeFileSync(join(dir, 'users', '[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'index.js'), 'export default async (ctx) => {}')
+
+    const nextApp: any = { all: jest.fn(), $routes: undefined }
+    await autoRouter({ dir, prefix: '/api', parseFileName: 'next', logging: false })(nextApp)
+    expect(nextApp.all.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users', '/api/users/:id'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should accept a custom parseFileName function and skip files it rejects', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-custom-parser')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'users@GET.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users-[id]@PUT.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'helpers.js'), 'export const noop = () => {}')
+
+    const mockApp: any = { get: jest.fn(), put: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      parseFileName: (fileName) => {
+        const match = /^(.*)@([A-Z]+)\.js$/.exec(fileName)
+        return match ? { method: match[2].toLowerCase(), routeName: match[1] } : null
+      },
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users'])
+    expect(mockApp.put.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users/:id'])
+    expect(errors).toContain('   ❌ File name "helpers.js" does not follow the parseFileName convention')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown parseFileName preset when the router is created', () => {
+    expect(() => autoRouter({ parseFileName: 'method.name' as never })).toThrow(/Invalid parseFileName "method.name"/)
+  })
+
+  it('should reject a param name repeated by a directory and the file, or warn in non-strict mode', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-repeated-param')
+    mkdirSync(join(dir, 'users', '[id]', 'posts'), { recursive: true })
+    writeFileSync(join(dir, 'users', '[id]', 'posts', 'get-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', '[id]', 'posts', 'get-[postId].js'), 'export default async (ctx) => {}')
+
+    const strictApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+    await autoRouter({ dir, prefix: '/api', onLog: (level, msg) => { if (level === 'error') errors.push(msg) } })(strictApp)
+    expect(strictApp.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users/:id/posts/:postId'])
+    expect(errors).toContain(`❌ Skip file: ${join(dir, 'users', '[id]', 'posts', 'get-[id].js')}`)
+    expect(errors.some(msg => msg.includes('Repeated parameter "id" in "/users/:id/posts/:id"'))).toBe(true)
+
+    const looseApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+    await autoRouter({ dir, prefix: '/api', strict: false, onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) } })(looseApp)
+    expect(looseApp.get.mock.calls.map((call: any[]) => call[0])).toContain('/api/users/:id/posts/:id')
+    expect(warnings.some(msg => msg.includes('Repeated parameter "id"') && msg.includes('(non-strict mode)'))).toBe(true)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report or skip routes naming a param differently per paramNameConsistency', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-param-names')
+    mkdirSync(join(dir, 'users', '[userId]'), { recursive: true })
+    writeFileSync(join(dir, 'users', '[userId]', 'get.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'delete-users-[uid]-posts.js'), 'export default async (ctx) => {}')
+
+    const silentApp: any = { get: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const silentWarnings: string[] = []
+    await autoRouter({ dir, prefix: '/api', onLog: (level, msg) => { if (level === 'warn') silentWarnings.push(msg) } })(silentApp)
+    expect(silentWarnings.some(msg => msg.includes('Inconsistent param name'))).toBe(false)
+
+    const warnApp: any = { get: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      paramNameConsistency: 'warn',
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(warnApp)
+    expect(warnApp.delete).toHaveBeenCalledWith('/api/users/:uid/posts', expect.any(Function))
+    expect(warnings).toContain(
+      `⚠️  Inconsistent param name :uid in DELETE /api/users/:uid/posts — ${join(dir, 'users', '[userId]', 'get.js')} names this segment :userId`
+    )
+
+    const errorApp: any = { get: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const logs: string[] = []
+    await autoRouter({ dir, prefix: '/api', paramNameConsistency: 'error', onLog: (level, msg) => logs.push(msg) })(errorApp)
+    expect(errorApp.get).toHaveBeenCalledWith('/api/users/:userId', expect.any(Function))
+    expect(errorApp.delete).not.toHaveBeenCalled()
+    expect(errorApp.$routes.all.map((route: any) => route.path)).toEqual(['/api/users/:userId'])
+    expect(logs).toContain(`❌ Skip file: ${join(dir, 'delete-users-[uid]-posts.js')}`)
+    expect(logs.some(msg => msg.includes('DELETE') && msg.startsWith('✅'))).toBe(false)
+
+    // The skipped route does not keep its key: a later config can serve the URL
+    const siblingDir = join(process.cwd(), '__tests__', 'controllers-param-names-sibling')
+    mkdirSync(siblingDir, { recursive: true })
+    writeFileSync(join(siblingDir, 'delete-users-[uid]-posts.js'), 'export default async (ctx) => {}')
+    const siblingApp: any = { get: jest.fn(), delete: jest.fn(), $routes: undefined }
+    const diagnostics: RouteDiagnostic[] = []
+    await autoRouter([
+      { dir, prefix: '/api', paramNameConsistency: 'error', logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) },
+      { dir: siblingDir, prefix: '/api', paramNameConsistency: 'error', logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) },
+    ])(siblingApp)
+    expect(siblingApp.delete).toHaveBeenCalledWith('/api/users/:uid/posts', expect.any(Function))
+    expect(diagnostics.map(({ code }) => code)).toEqual(['AR_INCONSISTENT_PARAM_NAME'])
+
+    rmSync(siblingDir, { recursive: true, force: true })
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should register dot-prefixed directories, dotted file names and escaped static text', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-literal-text')
+    mkdirSync(join(dir, '.well-known'), { recursive: true })
+    writeFileSync(join(dir, '.well-known', 'get-openid-configuration.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-robots.txt.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-tags-%5Bdraft%5D.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-urn%3Aisbn-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-100%.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+    await autoRouter({ dir, prefix: '', onLog: (level, msg) => { if (level === 'error') errors.push(msg) } })(mockApp)
+
+    expect(mockApp.get.mock.calls.map((call: any[]) => call[0]).sort()).toEqual([
+      '/.well-known/openid-configuration',
+      '/robots.txt',
+      '/tags-%5Bdraft%5D',
+      '/urn\\:isbn/:id',
+    ])
+    expect(errors.some(msg => msg.includes('Invalid escape in "100%"'))).toBe(true)
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject with an AggregateError listing every route error when onError is throw', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-on-error')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'helpers.js'), 'export const format = () => {}')
+    writeFileSync(join(dir, 'get-broken.js'), 'throw new Error("boom")')
+    writeFileSync(join(dir, 'post-users.js'), 'export default async (ctx) => {}\nexport const extra = 1')
+
+    const logApp: any = { get: jest.fn(), post: jest.fn(), $routes: undefined }
+    await expect(autoRouter({ dir, prefix: '/api', logging: false })(logApp)).resolves.toBeUndefined()
+
+    const app: any = { get: jest.fn(), post: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+    const rejection = await autoRouter({ dir, prefix: '/api', onError: 'throw', onLog: (level, msg) => { if (level === 'error') errors.push(msg) } })(app)
+      .then(() => undefined, (err: unknown) => err)
+
+    expect(rejection).toBeInstanceOf(AggregateError)
+    const messages = (rejection as AggregateError).errors.map((err: Error) => err.message).sort()
+    expect(messages).toHaveLength(3)
+    expect(messages[0]).toBe(`${join(dir, 'get-broken.js')}: boom`)
+    expect(messages[1].startsWith(`${join(dir, 'helpers.js')}: `)).toBe(true)
+    expect(messages[2]).toBe(`${join(dir, 'post-users.js')}: File can only have default export, named exports are not allowed`)
+    expect((rejection as AggregateError).errors.map((err: any) => err.code).sort()).toEqual(['AR_IMPORT_FAILED', 'AR_INVALID_FILE_NAME', 'AR_NAMED_EXPORTS'])
+    expect((rejection as AggregateError).message).toMatch(/^autoRouter found 3 route errors:\n {2}- /)
+    // Errors are still logged, and the valid routes registered, before the rejection
+    expect(errors).toContain(`❌ Failed to load route: ${join(dir, 'get-broken.js')}`)
+    expect(app.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/users'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown onError policy when the router is created', () => {
+    expect(() => autoRouter({ onError: 'exit' as never })).toThrow(`Invalid onError "exit": expected 'log' or 'throw'`)
+  })
+
+  it('should send warnings and errors to onDiagnostic with stable codes instead of onLog', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-on-diagnostic')
+    mkdirSync(join(dir, 'users'), { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'users', 'get.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'helpers.js'), 'export const format = () => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const diagnostics: any[] = []
+    const levels = new Set<string>()
+    await autoRouter({
+      dir,
+      prefix: '/api',
+      forcePublic: ['/api/health'],
+      onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+      onLog: level => levels.add(level),
+    })(mockApp)
+
+    expect(diagnostics).toHaveLength(3)
+    expect(diagnostics).toContainEqual({ code: 'AR_INVALID_FILE_NAME', severity: 'error', file: join(dir, 'helpers.js'), message: expect.any(String) })
+    expect(diagnostics).toContainEqual({
+      code: 'AR_DUPLICATE_ROUTE',
+      severity: 'error',
+      file: expect.stringMatching(/get(-users)?\.js$/),
+      route: 'GET /api/users',
+      message: 'Duplicate route: GET /api/users',
+    })
+    expect(diagnostics).toContainEqual({
+      code: 'AR_FORCE_PATTERN_UNMATCHED',
+      severity: 'warn',
+      pattern: '/api/health',
+      message: 'forcePublic pattern "/api/health" did not match any registered route (check for typos or outdated config)',
+    })
+    // Info lines (registered routes, the summary) still go to onLog
+    expect([...levels]).toEqual(['info'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should log and report in Chinese with locale zh-CN, keeping diagnostic codes', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-locale')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'GET-posts.js'), 'export default async (ctx) => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logs: string[] = []
+    const rejection = await autoRouter({ dir, prefix: '/api', locale: 'zh-CN', onError: 'throw', onLog: (level, msg) => logs.push(msg) })(mockApp)
+      .then(() => undefined, (err: unknown) => err)
+
+    expect(logs).toContain(`🔄 正在扫描控制器目录：${dir}`)
+    expect(logs).toContain(`❌ 跳过文件: ${join(dir, 'GET-posts.js')}`)
+    expect(logs).toContain(`   ❌ 文件名使用了 "GET" — HTTP 方法前缀必须小写，例如 "get-..."`)
+    expect(logs).toContain('📋 已注册路由：')
+    expect(logs).toContain('   总计：1')
+    expect((rejection as AggregateError).message).toMatch(/^autoRouter 发现 1 个路由错误：\n/)
+    expect((rejection as any).errors[0].code).toBe('AR_INVALID_FILE_NAME')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should validate the locale option and localize option errors when the router is created', async () => {
+    expect(() => autoRouter({ locale: 'fr' as never })).toThrow(`Invalid locale "fr": expected 'en' or 'zh-CN'`)
+    expect(() => autoRouter({ locale: 'zh-CN', ignore: ['('] })).toThrow(/^索引 0 处的 ignore 模式 \("\("\) 无效：/)
+    expect(() => autoRouter({ locale: 'zh-CN', paramTypes: { id: 'a/b' } })).toThrow('参数类型 "id" 无效：模式不能包含 "/" — 参数只匹配单个路径段')
+    expect(() => autoRouter({ locale: 'zh-CN', methods: [] })).toThrow('methods 选项无效：至少需要一个 HTTP 方法')
+    expect(() => autoRouter({ locale: 'zh-CN', pathCase: 'camel' as never })).toThrow(`pathCase "camel" 无效：应为 'preserve'、'kebab'、'snake' 或函数`)
+    expect(() => autoRouter({ locale: 'zh-CN', trailingSlash: 'drop' as never })).toThrow(`trailingSlash "drop" 无效：应为 'strict', 'ignore', 'redirect'`)
+    expect(() => autoRouter({ locale: 'zh-CN', lazy: true })).toThrow('lazy: true 无效：需要提供 routeManifest（scanRoutes() 返回的 routes）')
+    await expect(autoRouter({ locale: 'zh-CN', trailingSlash: 'strict', logging: false })(express() as any)).rejects.toThrow(
+      `trailingSlash: 'strict' 需要 Express 严格路由`
+    )
+  })
+
+  it('should only log lines at or above logLevel', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-log-level')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'helpers.js'), 'export const format = () => {}')
+    writeFileSync(join(dir, '__draft.js'), 'export default async (ctx) => {}')
+
+    const logsAt = async (logLevel: 'silent' | 'error' | 'warn' | 'info' | 'debug') => {
+      const levels: string[] = []
+      const mockApp: any = { get: jest.fn(), $routes: undefined }
+      await autoRouter({ dir, prefix: '/api', ignore: ['^__'], logLevel, onLog: level => levels.push(level) })(mockApp)
+      expect(mockApp.get).toHaveBeenCalledWith('/api/users', expect.any(Function))
+      return [...new Set(levels)].sort()
+    }
+
+    expect(await logsAt('silent')).toEqual([])
+    expect(await logsAt('warn')).toEqual(['error'])
+    expect(await logsAt('info')).toEqual(['error', 'info'])
+    expect(await logsAt('debug')).toEqual(['debug', 'error', 'info'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should keep debug lines from an onLog typed without debug unless logLevel is debug', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-log-level-typed')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, '__draft.js'), 'export default async (ctx) => {}')
+
+    const levels: string[] = []
+    const onLog = (level: 'info' | 'warn' | 'error', message: string) => levels.push(level)
+    await autoRouter({ dir, prefix: '/api', ignore: ['^__'], onLog })({ get: jest.fn() })
+    await autoRouter({ dir, prefix: '/api', ignore: ['^__'], logLevel: 'info', onLog })({ get: jest.fn() })
+    expect(levels).not.toContain('debug')
+
+    // @ts-expect-error an onLog without 'debug' cannot take logLevel: 'debug'
+    autoRouter({ dir, logLevel: 'debug', onLog })
+    const debugLevels: string[] = []
+    await autoRouter({ dir, prefix: '/api', ignore: ['^__'], logLevel: 'debug', onLog: level => debugLevels.push(level) })({ get: jest.fn() })
+    expect(debugLevels).toContain('debug')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should log one JSON object per line with logFormat json', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-log-json')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'helpers.js'), 'export const format = () => {}')
+
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const lines: string[] = []
+    await autoRouter({ dir, prefix: '/api', defaultRequiresAuth: true, logFormat: 'json', onLog: (level, message) => lines.push(message) })(mockApp)
+
+    const entries = lines.map(line => JSON.parse(line))
+    expect(entries).toContainEqual({
+      level: 'info',
+      message: 'GET /api/users',
+      method: 'GET',
+      path: '/api/users',
+      file: join(dir, 'get-users.js'),
+      requiresAuth: true,
+    })
+    expect(entries).toContainEqual({
+      level: 'error',
+      message: expect.stringContaining('File name must be a valid HTTP method'),
+      code: 'AR_INVALID_FILE_NAME',
+      file: join(dir, 'helpers.js'),
+    })
+    expect(entries).toContainEqual({ level: 'info', message: 'Registered routes:', total: 1, publicRoutes: 0, protectedRoutes: 1 })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reject an unknown logLevel or logFormat when the router is created', () => {
+    expect(() => autoRouter({ logLevel: 'verbose' as never })).toThrow(`Invalid logLevel "verbose": expected 'silent', 'error', 'warn', 'info' or 'debug'`)
+    expect(() => autoRouter({ logFormat: 'xml' as never })).toThrow(`Invalid logFormat "xml": expected 'pretty' or 'json'`)
+  })
+})
+
+describe('scanRoutes', () => {
+  const dir = join(process.cwd(), '__tests__', 'controllers-scan-routes')
+
+  beforeAll(() => {
+    mkdirSync(join(dir, 'admin'), { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'get-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(dir, 'admin', '_meta.js'), 'export default { requiresAuth: true, tags: ["Admin"] }')
+    writeFileSync(join(dir, 'admin', 'post-reset.js'), 'export default { handler: async () => {}, meta: { summary: "Reset" } }')
+    writeFileSync(join(dir, 'fetch-bad.js'), 'export default async (ctx) => {}')
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should return the route table and diagnostics without registering or printing', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {})
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const { routes, diagnostics } = await scanRoutes({ dir, prefix: '/api', strict: false })
+
+    expect(routes).toEqual([
+      { method: 'GET', path: '/api/users', requiresAuth: false },
+      { method: 'POST', path: '/api/admin/reset', requiresAuth: true, meta: { requiresAuth: true, tags: ['Admin'], summary: 'Reset' } },
+      { method: 'GET', path: '/api/:id', requiresAuth: false },
+    ])
+    expect(diagnostics).toContainEqual({ code: 'AR_INVALID_FILE_NAME', severity: 'error', file: join(dir, 'fetch-bad.js'), message: expect.any(String) })
+    expect(diagnostics).toContainEqual({
+      code: 'AR_LOOSE_EXPORT',
+      severity: 'warn',
+      file: join(dir, 'admin', 'post-reset.js'),
+      message: 'Detected non-recommended export method (non-strict mode)',
+    })
+    const printed = [logSpy, errorSpy, warnSpy].flatMap(spy => spy.mock.calls.flat().map(String))
+    expect(printed.some(line => line.includes('controllers-scan-routes'))).toBe(false)
+
+    logSpy.mockRestore()
+    errorSpy.mockRestore()
+    warnSpy.mockRestore()
+  })
+
+  it('should detect duplicates across configs and validate options like autoRouter', async () => {
+    const { routes, diagnostics } = await scanRoutes([{ dir, prefix: '/api', strict: false }, { dir, prefix: '/api', strict: false }])
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual(['GET /api/users', 'POST /api/admin/reset', 'GET /api/:id'])
+    expect(diagnostics.filter(diagnostic => diagnostic.code === 'AR_DUPLICATE_ROUTE')).toHaveLength(3)
+    await expect(scanRoutes({ dir, pathCase: 'camel' as never })).rejects.toThrow(/Invalid pathCase "camel"/)
+  })
+
+  it('should report the same route overlaps as autoRouter', async () => {
+    const overlapDir = join(process.cwd(), '__tests__', 'controllers-scan-overlaps')
+    mkdirSync(join(overlapDir, 'pages'), { recursive: true })
+    mkdirSync(join(overlapDir, 'items'), { recursive: true })
+    writeFileSync(join(overlapDir, 'pages', 'get-[...path].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(overlapDir, 'items', 'get-[id].js'), 'export default async (ctx) => {}')
+    writeFileSync(join(overlapDir, 'items', 'get-[slug].js'), 'export default async (ctx) => {}')
+    // The second config's routes are registered after the first's catch-all
+    const configs = [{ dir: join(overlapDir, 'pages'), prefix: '/api' }, { dir: join(overlapDir, 'items'), prefix: '/api' }]
+
+    const reported: RouteDiagnostic[] = []
+    await autoRouter(configs.map(config => ({ ...config, logging: false, onDiagnostic: (diagnostic: RouteDiagnostic) => reported.push(diagnostic) })))({ get: jest.fn() })
+    const { diagnostics } = await scanRoutes(configs)
+
+    expect(diagnostics.map(({ code, route }) => `${code} ${route}`)).toEqual(['AR_SHADOWED_ROUTE GET /api/:id', 'AR_SHADOWED_ROUTE GET /api/:slug'])
+    expect(diagnostics).toEqual(reported)
+
+    rmSync(overlapDir, { recursive: true, force: true })
+  })
+
+  it('watch: registers added files, stubs deleted ones and keeps $routes in sync', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-watch')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default (ctx) => { ctx.body = "users" }')
+    const waitFor = async (condition: () => boolean) => {
+      for (let waited = 0; !condition() && waited < 5000; waited += 20) {
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+      expect(condition()).toBe(true)
+    }
+    const lines: string[] = []
+    const app: any = { get: jest.fn(), post: jest.fn() }
+    await autoRouter({ dir, watch: true, onLog: (_level, message) => lines.push(message) })(app)
+    try {
+      expect(lines).toContain(`👀 Watching ${dir} for changes`)
+      const usersHandler = app.get.mock.calls[0][1]
+
+      writeFileSync(join(dir, 'post-login.js'), 'export default (ctx) => { ctx.body = "login" }')
+      await waitFor(() => app.post.mock.calls.length === 1)
+      expect(app.post).toHaveBeenCalledWith('/api/login', expect.any(Function))
+      expect(lines).toContain(`♻️  Routes reloaded from ${dir}:`)
+      expect(lines).toContain('   ➕ POST    /api/login')
+      expect(app.$routes.all.map((route: any) => `${route.method} ${route.path}`)).toEqual(['GET /api/users', 'POST /api/login'])
+
+      rmSync(join(dir, 'get-users.js'))
+      await waitFor(() => lines.includes('   ➖ GET     /api/users'))
+      const ctx: any = {}
+      const next = jest.fn()
+      await usersHandler(ctx, next)
+      expect(ctx.body).toBeUndefined()
+      expect(next).toHaveBeenCalled()
+      expect(app.$routes.all.map((route: any) => `${route.method} ${route.path}`)).toEqual(['POST /api/login'])
+      expect(app.$routes.publicRoutes).toEqual([{ method: 'POST', path: '/api/login' }])
+      expect([...app.$registeredRoutes]).toEqual(['POST /api/login'])
+
+      // A route that comes back revives its dispatcher instead of registering twice
+      writeFileSync(join(dir, 'get-users.js'), 'export default (ctx) => { ctx.body = "users" }')
+      await waitFor(() => app.$routes.all.length === 2)
+      await usersHandler(ctx, next)
+      expect(ctx.body).toBe('users')
+      expect(app.get).toHaveBeenCalledTimes(1)
+    } finally {
+      app.$unwatchRoutes()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('watch: warns that a static route added next to a param route is ordered after it until a restart', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-watch-order')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-[id].js'), 'export default (ctx) => { ctx.body = ctx.params.id }')
+    const diagnostics: any[] = []
+    const app: any = { get: jest.fn() }
+    await autoRouter({ dir, watch: true, logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) })(app)
+    try {
+      writeFileSync(join(dir, 'get-new.js'), 'export default (ctx) => { ctx.body = "new" }')
+      for (let waited = 0; app.get.mock.calls.length < 2 && waited < 5000; waited += 20) {
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+      expect(app.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/api/:id', '/api/new'])
+      expect(diagnostics).toEqual([
+        {
+          code: 'AR_WATCH_ROUTE_ORDER',
+          severity: 'warn',
+          file: join(dir, 'get-new.js'),
+          route: 'GET /api/new',
+          message: `Route added out of order: GET /api/:id takes URLs of GET /api/new until a restart — ${join(dir, 'get-new.js')} was registered by a reload, after the existing routes; a restart registers it in specificity order`,
+        },
+      ])
+      expect(app.$routes.overlaps).toBeUndefined()
+      expect(app.$registeredPatterns.map((route: any) => route.path)).toEqual(['/api/:id', '/api/new'])
+    } finally {
+      app.$unwatchRoutes()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('watch: re-imports an edited file under node', () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-watch-edit')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-count.js'), 'export default (ctx) => { ctx.body = 1 }')
+    const script = `
+      import { writeFileSync } from 'fs'
+      import { autoRouter } from ${JSON.stringify(pathToFileURL(join(process.cwd(), 'dist', 'index.js')).href)}
+      const lines = []
+      const app = { get: (path, handler) => { app.handler = handler } }
+      await autoRouter({ dir: ${JSON.stringify(dir)}, watch: true, onLog: (level, line) => lines.push(line) })(app)
+      const before = {}
+      await app.handler(before)
+      writeFileSync(${JSON.stringify(join(dir, 'get-count.js'))}, 'export default (ctx) => { ctx.body = 2 }')
+      await new Promise(resolve => setTimeout(resolve, 1000))
+      const after = {}
+      await app.handler(after)
+      app.$unwatchRoutes()
+      console.log(JSON.stringify({ bodies: [before.body, after.body], reloaded: lines.includes('   🔁 GET     /api/count') }))
+    `
+    try {
+      const result = spawnSync('node', ['--input-type=module', '-e', script], { encoding: 'utf-8', timeout: 20000 })
+      expect(JSON.parse(result.stdout)).toEqual({ bodies: [1, 2], reloaded: true })
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('lazy: imports a route file on its first request, listing it in $routes from the manifest', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-lazy')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, '_middleware.js'), 'export default async (ctx, next) => { ctx.trail = ["directory"]; await next() }')
+    writeFileSync(
+      join(dir, 'post-login.js'),
+      `export default {
+  handler: async (ctx) => { ctx.trail.push('handler') },
+  meta: { requiresAuth: true, summary: 'Login' },
+  middlewares: [async (ctx, next) => { ctx.trail.push('route'); await next() }],
+  __routeConfigBrand: true
+}`
+    )
+    writeFileSync(join(dir, 'get-broken.js'), 'throw new Error("boom")')
+    writeFileSync(join(dir, 'get-unlisted.js'), 'export default async (ctx) => { }')
+    const routeManifest = [
+      { method: 'POST', path: '/api/login', requiresAuth: true, meta: { requiresAuth: true, summary: 'Login' } },
+      { method: 'GET', path: '/api/broken', requiresAuth: false },
+    ]
+    const diagnostics: any[] = []
+    const app: any = { get: jest.fn(), post: jest.fn() }
+    await autoRouter({ dir, lazy: true, routeManifest, logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) })(app)
+
+    // Protected before its module loads: auth middleware reading $routes never sees it as public
+    expect(app.$routes.protectedRoutes).toEqual([{ method: 'POST', path: '/api/login' }])
+    expect(app.$routes.publicRoutes).toEqual([{ method: 'GET', path: '/api/broken' }, { method: 'GET', path: '/api/unlisted' }])
+    expect(app.$routes.all.find((route: any) => route.path === '/api/login')).toMatchObject({ requiresAuth: true, meta: { summary: 'Login' } })
+    // A file the manifest lacks is imported at startup instead
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'AR_LAZY_ROUTE_UNLISTED', severity: 'warn', file: join(dir, 'get-unlisted.js') }),
+    ])
+
+    // Registered from the file names alone: the directory middleware, then the lazy handler
+    const [path, directoryMiddleware, lazyHandler] = app.post.mock.calls[0]
+    expect(path).toBe('/api/login')
+    const ctx: any = {}
+    await directoryMiddleware(ctx, () => lazyHandler(ctx, async () => { }))
+    expect(ctx.trail).toEqual(['directory', 'route', 'handler'])
+
+    const brokenHandler = app.get.mock.calls.find((call: any[]) => call[0] === '/api/broken')[2]
+    await expect(brokenHandler({}, async () => { })).rejects.toThrow(`Route module failed to load: ${join(dir, 'get-broken.js')}`)
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['AR_LAZY_ROUTE_UNLISTED', 'AR_IMPORT_FAILED'])
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lazy: takes meta and auth from a routeManifest and validates its options', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-lazy-manifest')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(
+      join(dir, 'get-profile.js'),
+      `export default { handler: async (ctx) => { }, meta: { requiresAuth: true, tags: ['Users'] }, __routeConfigBrand: true }`
+    )
+    const { routes } = await scanRoutes({ dir })
+    const routeManifest = JSON.parse(JSON.stringify(routes))
+    const app: any = { get: jest.fn() }
+    await autoRouter({ dir, lazy: true, logging: false, routeManifest })(app)
+    expect(app.$routes.protectedRoutes).toEqual([{ method: 'GET', path: '/api/profile' }])
+    expect(app.$routes.all[0].meta).toEqual({ requiresAuth: true, tags: ['Users'] })
+
+    expect(() => autoRouter({ lazy: true })).toThrow('Invalid lazy: true: expected a routeManifest (the routes of scanRoutes())')
+    expect(() => autoRouter({ lazy: true, routeManifest, convention: 'module' })).toThrow(`Invalid lazy: true: expected convention 'file', not 'module'`)
+    expect(() => autoRouter({ lazy: true, routeManifest, watch: true })).toThrow('Invalid lazy: true: cannot be combined with watch: true')
+    expect(() => autoRouter({ lazy: true, routeManifest: {} as never })).toThrow('Invalid routeManifest: expected the routes array of scanRoutes()')
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lazy: sends load failures and handler errors to next(err) on Express', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-lazy-express')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-broken.js'), 'throw new Error("boom")')
+    writeFileSync(join(dir, 'get-throws.js'), 'export default (req, res) => { throw new Error("handler failed") }')
+    writeFileSync(join(dir, 'get-ok.js'), 'export default (req, res) => { res.send("ok") }')
+    const routeManifest = ['broken', 'throws', 'ok'].map(name => ({ method: 'GET', path: `/api/${name}`, requiresAuth: false }))
+    const app = express()
+    await autoRouter({ dir, lazy: true, routeManifest, logging: false, onDiagnostic: () => { } })(app as any)
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).send(err.message)
+    })
+
+    expect(await requestExpress(app, '/api/ok')).toMatchObject({ status: 200, body: 'ok' })
+    expect(await requestExpress(app, '/api/throws')).toMatchObject({ status: 500, body: 'handler failed' })
+    expect(await requestExpress(app, '/api/broken')).toMatchObject({
+      status: 500,
+      body: `Route module failed to load: ${join(dir, 'get-broken.js')}`,
+    })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('trailingSlash: redirects, aliases and rejects non-strict routing on Express', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-trailing-slash-express')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-users.js'), 'export default (req, res) => { res.send("users") }')
+
+    const redirectApp = express()
+    await autoRouter({ dir, trailingSlash: 'redirect', logging: false })(redirectApp as any)
+    expect(await requestExpress(redirectApp, '/api/users/?page=2')).toMatchObject({ status: 308, location: '/api/users?page=2' })
+    expect(await requestExpress(redirectApp, '/api/users')).toMatchObject({ status: 200, body: 'users' })
+
+    const ignoreApp = express()
+    await autoRouter({ dir, trailingSlash: 'ignore', logging: false })(ignoreApp as any)
+    expect(await requestExpress(ignoreApp, '/api/users/')).toMatchObject({ status: 200, body: 'users' })
+
+    await expect(autoRouter({ dir, trailingSlash: 'strict', logging: false })(express() as any)).rejects.toThrow(
+      `trailingSlash: 'strict' needs Express strict routing`
+    )
+    await expect(autoRouter({ dir, trailingSlash: 'strict', logging: false })(express.Router() as any)).rejects.toThrow(
+      `trailingSlash: 'strict' needs Express strict routing`
+    )
+    const strictApp = express()
+    strictApp.enable('strict routing')
+    await autoRouter({ dir, trailingSlash: 'strict', logging: false })(strictApp as any)
+    expect(await requestExpress(strictApp, '/api/users/')).toMatchObject({ status: 404 })
+    expect(await requestExpress(strictApp, '/api/users')).toMatchObject({ status: 200, body: 'users' })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('rest params: register :name(.+) with inlineParamRegex and refuse *name on Express 4', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-rest-express')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-docs-[...path].js'), 'export default (req, res) => { res.json(req.params) }')
+    writeFileSync(join(dir, 'get-pages-[[...slug]].js'), 'export default (req, res) => { res.json(req.params) }')
+
+    const inlineApp = express()
+    await autoRouter({ dir, inlineParamRegex: true, logging: false })(inlineApp as any)
+    expect(await requestExpress(inlineApp, '/api/docs/a/b')).toMatchObject({ status: 200, body: '{"path":"a/b"}' })
+    expect(await requestExpress(inlineApp, '/api/docsxpath')).toMatchObject({ status: 404 })
+    expect(await requestExpress(inlineApp, '/api/pages')).toMatchObject({ status: 200, body: '{}' })
+    expect(await requestExpress(inlineApp, '/api/pages/a/b')).toMatchObject({ status: 200, body: '{"slug":"a/b"}' })
+    expect((inlineApp as any).$routes.all.map((route: any) => route.path)).toEqual(['/api/pages', '/api/docs/*path', '/api/pages/*slug'])
+
+    const diagnostics: any[] = []
+    const plainApp = express()
+    await autoRouter({ dir, logging: false, onDiagnostic: diagnostic => diagnostics.push(diagnostic) })(plainApp as any)
+    expect(diagnostics.map(({ code, route }) => `${code} ${route}`)).toEqual([
+      'AR_UNSUPPORTED_REST_PARAM GET /api/docs/*path',
+      'AR_UNSUPPORTED_REST_PARAM GET /api/pages/*slug',
+    ])
+    expect(diagnostics[0].message).toBe('Express 4 reads "*path" as a bare wildcard and would misroute this rest param; set inlineParamRegex: true to register ":path(.+)"')
+    expect(await requestExpress(plainApp, '/api/docs/a/b')).toMatchObject({ status: 404 })
+    expect(await requestExpress(plainApp, '/api/pages')).toMatchObject({ status: 200 })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('trailingSlash: applies to rest routes as the worker router does', async () => {
+    const dir = join(process.cwd(), '__tests__', 'controllers-rest-trailing-slash')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'get-docs-[...path].js'), 'export default (req, res) => { res.json(req.params) }')
+    const worker = (trailingSlash: TrailingSlashPolicy) => createWorkerRouter({
+      routes: [{ pattern: '/api/docs/*path', method: 'GET', handler: ctx => ctx.params }],
+      trailingSlash,
+    })
+    const requestWorker = async (router: ReturnType<typeof worker>, path: string) => {
+      const response = await router.fetch(new Request(`http://localhost${path}`), {}, {} as ExecutionContext)
+      const location = response.headers.get('location')
+      // The worker answers with an absolute URL
+      return { status: response.status, location: location && location.replace('http://localhost', '') }
+    }
+
+    for (const trailingSlash of ['strict', 'redirect', 'ignore'] as const) {
+      const app = express()
+      app.enable('strict routing')
+      await autoRouter({ dir, inlineParamRegex: true, trailingSlash, logging: false })(app as any)
+      for (const path of ['/api/docs/a/b', '/api/docs/a/b/?page=2']) {
+        const { status, location } = await requestExpress(app, path)
+        expect({ trailingSlash, path, status, location }).toEqual({ trailingSlash, path, ...(await requestWorker(worker(trailingSlash), path)) })
+      }
+    }
+
+    const redirectApp = express()
+    redirectApp.enable('strict routing')
+    await autoRouter({ dir, inlineParamRegex: true, trailingSlash: 'redirect', logging: false })(redirectApp as any)
+    expect(await requestExpress(redirectApp, '/api/docs/a/b/?page=2')).toMatchObject({ status: 308, location: '/api/docs/a/b?page=2' })
+    expect(await requestExpress(redirectApp, '/api/docs/a/b')).toMatchObject({ status: 200, body: '{"path":"a/b"}' })
+
+    rmSync(dir, { recursive: true, force: true })
+  })
 })
@@ -1,3 +1,4 @@
+import { jest } from '@jest/globals'
 import { generateManifest } from '../build-worker-manifest'
 import { mkdtempSync, writeFileSync, rmSync, mkdirSync, chmodSync, symlinkSync } from 'fs'
 import { join } from 'path'
@@ -329,4 +330,360 @@ describe('generateManifest', () => {
     expect(manifest).toContain("{ pattern: '/api/admin', method: 'POST'")
     expect(manifest).not.toContain('handler_admin_get')
   })
+
+  it('emits rest parameters as *name and sorts them after params', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'files', '[...path]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'get-docs-[...slug].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-docs-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'files', '[...path]', 'get.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'files', '[...path]', 'get-meta.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+    const routeLines = manifest.split('\n').filter(line => line.includes('{ pattern:'))
+
+    expect(routeLines).toHaveLength(3)
+    expect(routeLines[0]).toContain("'/api/docs/:id'")
+    expect(manifest).toContain("{ pattern: '/api/docs/*slug', method: 'GET'")
+    expect(manifest).toContain("{ pattern: '/api/files/*path', method: 'GET'")
+    // A segment after a rest directory is unreachable and skipped
+    expect(manifest).not.toContain('get_meta')
+  })
+
+  it('emits optional parameters as :name? and treats both forms as duplicates', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'get-posts-[[page]].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-posts.ts'), 'export default async (ctx) => {}')
+
+    const originalWarn = console.warn
+    const warnings: string[] = []
+    console.warn = (msg: string) => { warnings.push(msg) }
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    console.warn = originalWarn
+    expect(manifest).toContain("{ pattern: '/api/posts', method: 'GET', handler: handler_get_posts }")
+    expect(manifest).not.toContain("'/api/posts/:page?'")
+    expect(warnings).toContain('⚠️  Duplicate route skipped: GET /api/posts')
+  })
+
+  it('emits typed params as escaped :name(regex) patterns ordered before untyped params', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, '[orgId:uuid]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'get-[slug].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-[id:int].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-reports-[y:year].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, '[orgId:uuid]', 'get.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({
+      controllersDir,
+      outputFile,
+      prefix: '/api',
+      ext: 'ts',
+      paramTypes: { year: '\\d{4}' },
+    })
+    const routeLines = manifest.split('\n').filter(line => line.includes('{ pattern:'))
+
+    expect(manifest).toContain("{ pattern: '/api/:id(\\\\d+)', method: 'GET'")
+    expect(manifest).toContain("{ pattern: '/api/reports/:y(\\\\d{4})', method: 'GET'")
+    expect(manifest).toContain("pattern: '/api/:orgId([0-9a-fA-F]{8}-")
+    expect(routeLines[routeLines.length - 1]).toContain("'/api/:slug'")
+    expect(manifest).toContain("--param-type 'year=\\d{4}'")
+  })
+
+  it('skips files with an unknown param type', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'get-[id:num].ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    expect(manifest).not.toContain('handler_get_id_num')
+  })
+
+  it('does not add a path segment for (group) directories', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, '(admin)', 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, '(admin)', 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    expect(manifest).toContain("/controllers/(admin)/users/get-[id]'")
+    expect(manifest).toContain("{ pattern: '/api/users/:id', method: 'GET', handler: handler_admin_users_get_id }")
+  })
+
+  it('imports _middleware modules once and attaches them root to leaf', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'admin'), { recursive: true })
+    writeFileSync(join(controllersDir, '_middleware.ts'), 'export default async (ctx, next) => next()')
+    writeFileSync(join(controllersDir, 'admin', '_middleware.ts'), 'export default [async (ctx, next) => next()]')
+    writeFileSync(join(controllersDir, 'get-health.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'admin', 'get-users.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'admin', 'post-users.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    expect(manifest.match(/import middleware_middleware from '.*\/controllers\/_middleware'/g)).toHaveLength(1)
+    expect(manifest.match(/import middleware_admin_middleware from '.*\/controllers\/admin\/_middleware'/g)).toHaveLength(1)
+    expect(manifest.indexOf('import middleware_')).toBeLessThan(manifest.indexOf('import handler_'))
+    expect(manifest).toContain("{ pattern: '/api/health', method: 'GET', handler: handler_get_health, directoryMiddlewares: [middleware_middleware] }")
+    expect(manifest).toContain(
+      "{ pattern: '/api/admin/users', method: 'GET', handler: handler_admin_get_users, directoryMiddlewares: [middleware_middleware, middleware_admin_middleware] }"
+    )
+    expect(manifest).not.toContain('handler__middleware')
+  })
+
+  it('emits one entry per method export of route.ts files with convention: module', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users', '[id]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'route.ts'), 'export const GET = async (ctx) => {}')
+    writeFileSync(
+      join(controllersDir, 'users', '[id]', 'route.ts'),
+      [
+        'export async function GET(ctx) {}',
+        'const remove = async (ctx) => {}',
+        'export { remove as DELETE }',
+        'export type Params = { id: string }',
+      ].join('\n')
+    )
+    writeFileSync(join(controllersDir, 'users', 'get-legacy.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', convention: 'module' })
+
+    expect(manifest.match(/import \* as handler_users_id_route from '.*\/controllers\/users\/\[id\]\/route'/g)).toHaveLength(1)
+    expect(manifest).toContain("{ pattern: '/api', method: 'GET', handler: handler_route.GET }")
+    expect(manifest).toContain("{ pattern: '/api/users/:id', method: 'GET', handler: handler_users_id_route.GET }")
+    expect(manifest).toContain("{ pattern: '/api/users/:id', method: 'DELETE', handler: handler_users_id_route.DELETE }")
+    expect(manifest).not.toContain('legacy')
+    expect(manifest).not.toContain('Params')
+    expect(manifest).toContain('--convention module')
+  })
+
+  it('accepts a configured method set and orders ALL routes after method-specific ones', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'all-users.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-users.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'report-users.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', methods: ['get', 'REPORT'] })
+
+    const getIndex = manifest.indexOf("method: 'GET'")
+    const reportIndex = manifest.indexOf("method: 'REPORT'")
+    const allIndex = manifest.indexOf("method: 'ALL'")
+    expect(getIndex).toBeGreaterThan(-1)
+    expect(reportIndex).toBeGreaterThan(getIndex)
+    expect(allIndex).toBeGreaterThan(reportIndex)
+    expect(manifest).toContain('--methods get,report')
+
+    const defaults = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+    expect(defaults).not.toContain('REPORT')
+  })
+
+  it('emits one entry per method of a get+head- file sharing a single import', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'get+head-users.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'head-users.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    expect(manifest.match(/import handler_get_head_users from/g)).toHaveLength(1)
+    expect(manifest).toContain("{ pattern: '/api/users', method: 'GET', handler: handler_get_head_users }")
+    expect(manifest.match(/method: 'HEAD'/g)).toHaveLength(1)
+  })
+
+  it('orders entries segment by segment and warns about ambiguous routes', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, '[id]'), { recursive: true })
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, '[id]', 'get-posts.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'users', 'get-[x].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-[a].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-[b].ts'), 'export default async (ctx) => {}')
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    const order = [...manifest.matchAll(/pattern: '([^']+)'/g)].map(match => match[1])
+    expect(order).toEqual(['/api/users/:x', '/api/:a', '/api/:b', '/api/:id/posts'])
+    expect(warnSpy).toHaveBeenCalledWith(
+      '⚠️  Ambiguous routes: GET /api/:a and GET /api/:b match the same URLs — get-[a].ts is listed first'
+    )
+    warnSpy.mockRestore()
+  })
+
+  it('emits params glued to static text and orders them before plain params', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'files'), { recursive: true })
+    mkdirSync(join(controllersDir, 'v[version]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'files', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'files', 'get-[name].json.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'v[version]', 'get-status.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    const order = [...manifest.matchAll(/pattern: '([^']+)'/g)].map(match => match[1])
+    expect(order).toEqual(['/api/files/:name.json', '/api/files/:id', '/api/v:version/status'])
+    expect(manifest).not.toMatch(/import \S*[.[\]]\S* from/)
+  })
+
+  it('reads file names with the parseFileName convention', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'users', '[id].get+delete.ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', parseFileName: 'name.method' })
+
+    const entries = [...manifest.matchAll(/pattern: '([^']+)', method: '(\w+)'/g)].map(match => `${match[2]} ${match[1]}`)
+    expect(entries).toEqual(['GET /api/users', 'DELETE /api/users/:id', 'GET /api/users/:id'])
+    expect(manifest).toContain('--parse-file-name name.method')
+  })
+
+  it('skips files that repeat a param name of a directory above them', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users', '[id]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', '[id]', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'users', '[id]', 'get.ts'), 'export default async (ctx) => {}')
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })
+
+    expect([...manifest.matchAll(/pattern: '([^']+)'/g)].map(match => match[1])).toEqual(['/api/users/:id'])
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringMatching(/^⚠️  Skip file: users\/\[id\]\/get-\[id\]\.ts — Repeated parameter "id"/))
+    warnSpy.mockRestore()
+  })
+
+  it('warns about or leaves out params named differently per paramNameConsistency', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users', '[userId]'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', '[userId]', 'get.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'delete-users-[id]-posts.ts'), 'export default async (ctx) => {}')
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const warned = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', paramNameConsistency: 'warn' })
+    expect(warned).toContain("pattern: '/api/users/:id/posts', method: 'DELETE'")
+    expect(warnSpy).toHaveBeenCalledWith('⚠️  Inconsistent param name :id in DELETE /api/users/:id/posts — users/[userId]/get.ts names this segment :userId')
+
+    const strict = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', paramNameConsistency: 'error' })
+    expect(strict).not.toContain("method: 'DELETE'")
+    expect(strict).toContain('--param-name-consistency error')
+    expect(errorSpy).toHaveBeenCalledWith('❌ Skip file: delete-users-[id]-posts.ts')
+    warnSpy.mockRestore()
+    errorSpy.mockRestore()
+  })
+
+  it('emits dot-prefixed directories and escaped static text', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, '.well-known'), { recursive: true })
+    writeFileSync(join(controllersDir, '.well-known', 'get-openid-configuration.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-urn%3Aisbn-[id].ts'), 'export default async (ctx) => {}')
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '', ext: 'ts' })
+
+    expect(manifest).toContain("pattern: '/.well-known/openid-configuration'")
+    expect(manifest).toContain("pattern: '/urn\\\\:isbn/:id'")
+    expect(manifest).toContain("from '../controllers/.well-known/get-openid-configuration'")
+  })
+
+  it('throws an AggregateError of the skipped files when onError is throw', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'users', '_meta.ts'), 'export default { requiresAuth: true }')
+    writeFileSync(join(controllersDir, 'users', 'helpers.ts'), 'export const format = () => {}')
+    writeFileSync(join(controllersDir, 'get-users-[id].ts'), 'export default async (ctx) => {}')
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts' })).toContain("pattern: '/api/users/:id'")
+
+    let thrown: unknown
+    try {
+      generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', onError: 'throw' })
+    } catch (err) {
+      thrown = err
+    }
+    expect(thrown).toBeInstanceOf(AggregateError)
+    const messages = (thrown as AggregateError).errors.map((err: Error) => err.message)
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatch(/^users\/helpers\.ts: /)
+    expect(messages[1]).toBe('users/get-[id].ts: Duplicate route: GET /api/users/:id')
+    warnSpy.mockRestore()
+  })
+
+  it('sends warnings to onDiagnostic instead of the console', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-users-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'helpers.ts'), 'export const format = () => {}')
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const diagnostics: unknown[] = []
+
+    generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+
+    expect(warnSpy).not.toHaveBeenCalled()
+    expect(diagnostics).toEqual([
+      { code: 'AR_INVALID_FILE_NAME', severity: 'warn', file: 'helpers.ts', message: expect.any(String) },
+      { code: 'AR_DUPLICATE_ROUTE', severity: 'warn', file: 'users/get-[id].ts', route: 'GET /api/users/:id', message: 'Duplicate route: GET /api/users/:id' },
+    ])
+    warnSpy.mockRestore()
+  })
+
+
+  it('reads comma-separated and renamed method exports of route.ts and reports one that exports none or more', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'output', 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    mkdirSync(join(controllersDir, 'drafts'), { recursive: true })
+    writeFileSync(
+      join(controllersDir, 'route.ts'),
+      [
+        'const list = async (ctx) => {}',
+        'export const GET: Handler<Ctx, Res> = createHandler(list, { tags: ["a", "b"] }), POST = async (ctx) => {}, // PUT = 1',
+        'export { list as HEAD }',
+      ].join('\n')
+    )
+    writeFileSync(join(controllersDir, 'users', 'route.ts'), 'const remove = async (ctx) => {}\nexport { remove as DELETE, remove as PATCH }')
+    mkdirSync(join(controllersDir, 'helpers'), { recursive: true })
+    writeFileSync(join(controllersDir, 'drafts', 'route.ts'), 'const helper = 1\nexport type Draft = { helper: number }\nexport const enum Status { Draft }')
+    writeFileSync(join(controllersDir, 'helpers', 'route.ts'), 'export const GET = async (ctx) => {}, format = () => {}')
+    const diagnostics: unknown[] = []
+
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'ts', convention: 'module', onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+
+    const routeLines = manifest.split('\n').filter(line => line.includes('{ pattern:'))
+    expect(routeLines.map(line => /method: '(\w+)'/.exec(line)![1])).toEqual(['GET', 'HEAD', 'POST', 'DELETE', 'PATCH'])
+    expect(manifest).not.toContain('drafts')
+    expect(manifest).not.toContain('helpers')
+    expect(diagnostics).toEqual([
+      { code: 'AR_EMPTY_ROUTE_MODULE', severity: 'warn', file: join('drafts', 'route.ts'), message: 'Route module exports no HTTP method handlers' },
+      {
+        code: 'AR_UNKNOWN_MODULE_EXPORTS',
+        severity: 'warn',
+        file: join('helpers', 'route.ts'),
+        message: expect.stringContaining('Detected other exports: format'),
+      },
+    ])
+  })
 })
@@ -1,5 +1,5 @@
 import { spawnSync } from 'child_process'
-import { mkdtempSync, writeFileSync, rmSync, mkdirSync, readFileSync } from 'fs'
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync, readFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 
@@ -174,4 +174,208 @@ describe('auto-router-build-manifest CLI', () => {
     expect(generatedContent).toContain("{ pattern: '/api/users'")
     expect(generatedContent).toContain("--ignore '^__'")
   })
+
+  it('respects --param-type flags and rejects malformed definitions', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'get-reports-[y:year].ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--param-type', 'year=\\d{4}'], {
+      encoding: 'utf-8'
+    })
+
+    expect(result.status).toBe(0)
+    const generatedContent = readFileSync(outputFile, 'utf-8')
+    expect(generatedContent).toContain("{ pattern: '/api/reports/:y(\\\\d{4})'")
+    expect(generatedContent).toContain("--param-type 'year=\\d{4}'")
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--param-type', 'year'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--param-type requires a name=regex definition')
+  })
+
+  it('respects --convention module and rejects unknown conventions', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'route.ts'), 'export const GET = async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--convention', 'module'], {
+      encoding: 'utf-8'
+    })
+
+    expect(result.status).toBe(0)
+    const generatedContent = readFileSync(outputFile, 'utf-8')
+    expect(generatedContent).toContain("{ pattern: '/api/users', method: 'GET', handler: handler_users_route.GET }")
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--convention', 'next'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--convention must be "file" or "module"')
+  })
+
+  it('respects --methods and rejects invalid method names', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'search-users.ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--methods', 'get,post,search'], {
+      encoding: 'utf-8'
+    })
+
+    expect(result.status).toBe(0)
+    const generatedContent = readFileSync(outputFile, 'utf-8')
+    expect(generatedContent).toContain("{ pattern: '/api/users', method: 'SEARCH', handler: handler_search_users }")
+    expect(generatedContent).toContain('--methods get,post,search')
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--methods', 'm-search'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('Invalid HTTP method "m-search"')
+  })
+
+  it('respects --path-case and rejects unknown casings', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'adminPanel'), { recursive: true })
+    writeFileSync(join(controllersDir, 'adminPanel', 'get-userProfile-[userId].ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--path-case', 'kebab'], {
+      encoding: 'utf-8'
+    })
+
+    expect(result.status).toBe(0)
+    const generatedContent = readFileSync(outputFile, 'utf-8')
+    expect(generatedContent).toContain("pattern: '/api/admin-panel/user-profile/:userId'")
+    expect(generatedContent).toContain('--path-case kebab')
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--path-case', 'camel'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--path-case must be "preserve", "kebab" or "snake"')
+  })
+
+  it('respects --parse-file-name and rejects unknown presets', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', '[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'users', 'index.ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--parse-file-name', 'next'], {
+      encoding: 'utf-8'
+    })
+
+    expect(result.status).toBe(0)
+    const generatedContent = readFileSync(outputFile, 'utf-8')
+    expect(generatedContent).toContain("pattern: '/api/users', method: 'ALL'")
+    expect(generatedContent).toContain("pattern: '/api/users/:id', method: 'ALL'")
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--parse-file-name', 'rails'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--parse-file-name must be "method-name", "name.method" or "next"')
+  })
+
+  it('exits with 1 and writes nothing when --on-error throw finds route errors', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(controllersDir, { recursive: true })
+    writeFileSync(join(controllersDir, 'get-users.ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'helpers.ts'), 'export const format = () => {}')
+
+    const logged = spawnSync('node', [cliPath, controllersDir, outputFile], { encoding: 'utf-8' })
+    expect(logged.status).toBe(0)
+    rmSync(outputFile)
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--on-error', 'throw'], { encoding: 'utf-8' })
+    expect(result.status).toBe(1)
+    expect(result.stderr).toContain('generateManifest found 1 route error:\n  - helpers.ts: ')
+    expect(existsSync(outputFile)).toBe(false)
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--on-error', 'exit'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--on-error must be "log" or "throw"')
+  })
+
+  it('treats --diagnostics as an alias of --log-format, the last flag winning, printing diagnostics with severity', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-users-[id].ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--diagnostics', 'json'], { encoding: 'utf-8' })
+    const logFormat = spawnSync('node', [cliPath, controllersDir, outputFile, '--log-format', 'json'], { encoding: 'utf-8' })
+
+    expect(result.status).toBe(0)
+    expect(result.stderr.trim().split('\n').map(line => JSON.parse(line))).toEqual([
+      { code: 'AR_DUPLICATE_ROUTE', severity: 'warn', file: 'users/get-[id].ts', route: 'GET /api/users/:id', message: 'Duplicate route: GET /api/users/:id' },
+    ])
+    expect(logFormat.stderr.trim().split('\n').map(line => JSON.parse(line))).toEqual([
+      { level: 'warn', message: 'Duplicate route: GET /api/users/:id', code: 'AR_DUPLICATE_ROUTE', file: 'users/get-[id].ts', route: 'GET /api/users/:id' },
+    ])
+    expect(result.stdout).toBe(logFormat.stdout)
+
+    const pretty = spawnSync('node', [cliPath, controllersDir, outputFile, '--diagnostics', 'json', '--log-format', 'pretty'], { encoding: 'utf-8' })
+    expect(pretty.stderr).toContain('⚠️  Duplicate route skipped: GET /api/users/:id')
+    const json = spawnSync('node', [cliPath, controllersDir, outputFile, '--log-format', 'pretty', '--diagnostics', 'json'], { encoding: 'utf-8' })
+    expect(json.stderr).toBe(result.stderr)
+    const logFormatLast = spawnSync('node', [cliPath, controllersDir, outputFile, '--diagnostics', 'json', '--log-format', 'json'], { encoding: 'utf-8' })
+    expect(logFormatLast.stderr).toBe(logFormat.stderr)
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--diagnostics', 'xml'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--diagnostics must be "pretty" or "json"')
+  })
+
+  it('prints warnings and the result in Chinese with --locale zh-CN', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-users-[id].ts'), 'export default async (ctx) => {}')
+
+    const result = spawnSync('node', [cliPath, controllersDir, outputFile, '--locale', 'zh-CN'], { encoding: 'utf-8' })
+
+    expect(result.status).toBe(0)
+    expect(result.stderr).toContain('⚠️  已跳过重复的路由：GET /api/users/:id')
+    expect(result.stdout).toContain(`✅ 已生成：${outputFile}`)
+    expect(readFileSync(outputFile, 'utf-8')).toContain('--locale zh-CN')
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--locale', 'fr'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--locale must be "en" or "zh-CN"')
+
+    // --locale is read ahead, so an earlier bad argument is reported in Chinese too
+    const badConvention = spawnSync('node', [cliPath, controllersDir, outputFile, '--convention', 'app', '--locale', 'zh-CN'], { encoding: 'utf-8' })
+    expect(badConvention.status).toBe(1)
+    expect(badConvention.stderr).toContain('错误: --convention 必须是 "file" 或 "module"')
+  })
+
+  it('filters output with --log-level and prints JSON lines with --log-format json', () => {
+    const controllersDir = join(testDir, 'controllers')
+    const outputFile = join(testDir, 'routes.ts')
+    mkdirSync(join(controllersDir, 'users'), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'get-[id].ts'), 'export default async (ctx) => {}')
+    writeFileSync(join(controllersDir, 'get-users-[id].ts'), 'export default async (ctx) => {}')
+
+    const json = spawnSync('node', [cliPath, controllersDir, outputFile, '--log-format', 'json'], { encoding: 'utf-8' })
+    expect(json.status).toBe(0)
+    expect(JSON.parse(json.stdout.trim())).toEqual({ level: 'info', message: `Generated: ${outputFile}`, file: outputFile })
+    expect(JSON.parse(json.stderr.trim())).toEqual({
+      level: 'warn',
+      message: 'Duplicate route: GET /api/users/:id',
+      code: 'AR_DUPLICATE_ROUTE',
+      file: 'users/get-[id].ts',
+      route: 'GET /api/users/:id',
+    })
+
+    const quiet = spawnSync('node', [cliPath, controllersDir, outputFile, '--log-level', 'warn'], { encoding: 'utf-8' })
+    expect(quiet.status).toBe(0)
+    expect(quiet.stdout).toBe('')
+    expect(quiet.stderr).toContain('Duplicate route skipped: GET /api/users/:id')
+
+    const bad = spawnSync('node', [cliPath, controllersDir, outputFile, '--log-level', 'verbose'], { encoding: 'utf-8' })
+    expect(bad.status).toBe(1)
+    expect(bad.stderr).toContain('--log-level must be "silent", "error", "warn", "info" or "debug"')
+  })
 })
@@ -0,0 +1,71 @@
+import { findParamNameConflicts, checkParamNames, resolveParamNameConsistency } from '../param-names'
+
+describe('findParamNameConflicts', () => {
+  it('reports params named differently from the first route at the same position', () => {
+    const routes = [
+      { method: 'GET', path: '/api/users/:userId', file: 'users/[userId]/get.ts' },
+      { method: 'GET', path: '/api/users/:id(\\d+)/posts', file: 'get-users-[id:int]-posts.ts' },
+      { method: 'DELETE', path: '/api/users/:uid', file: 'delete-users-[uid].ts' },
+      { method: 'GET', path: '/api/posts/:id', file: 'get-posts-[id].ts' },
+    ]
+    expect(findParamNameConflicts(routes).map(({ route, name, expected, expectedBy }) => [route.file, name, expected, expectedBy.file])).toEqual([
+      ['get-users-[id:int]-posts.ts', 'id', 'userId', 'users/[userId]/get.ts'],
+      ['delete-users-[uid].ts', 'uid', 'userId', 'users/[userId]/get.ts'],
+    ])
+  })
+
+  it('compares positions after earlier params whatever their names, and ignores casing', () => {
+    const routes = [
+      { method: 'GET', path: '/users/:userId/posts/:postId' },
+      { method: 'GET', path: '/users/:UserID/posts/:id' },
+      { method: 'GET', path: '/files/*path' },
+      { method: 'GET', path: '/files/:name.json' },
+    ]
+    expect(findParamNameConflicts(routes).map(({ route, name, expected }) => [route.path, name, expected])).toEqual([
+      ['/users/:UserID/posts/:id', 'id', 'postId'],
+    ])
+  })
+})
+
+describe('checkParamNames', () => {
+  const routes = [
+    { method: 'GET', path: '/api/users/:userId', file: 'users/[userId]/get.ts' },
+    { method: 'GET', path: '/api/users/:id', file: 'get+head-users-[id].ts' },
+    { method: 'HEAD', path: '/api/users/:id', file: 'get+head-users-[id].ts' },
+  ]
+
+  it('warns once per file and rejects nothing at the warn level', () => {
+    const messages: string[] = []
+    const rejected = checkParamNames(routes, 'warn', (diagnostic, lines) => messages.push(...lines.map(line => `${diagnostic.severity} ${line}`)))
+    expect(rejected.size).toBe(0)
+    expect(messages).toEqual([
+      'warn ⚠️  Inconsistent param name :id in GET /api/users/:id — users/[userId]/get.ts names this segment :userId',
+    ])
+  })
+
+  it('rejects every conflicting route at the error level', () => {
+    const diagnostics: unknown[] = []
+    const messages: string[] = []
+    const rejected = checkParamNames(routes, 'error', (diagnostic, lines) => {
+      diagnostics.push(diagnostic)
+      messages.push(...lines.map(line => `${diagnostic.severity} ${line}`))
+    })
+    expect([...rejected]).toEqual([routes[1], routes[2]])
+    expect(messages[0]).toBe('error ❌ Skip file: get+head-users-[id].ts')
+    expect(diagnostics).toEqual([{
+      code: 'AR_INCONSISTENT_PARAM_NAME',
+      severity: 'error',
+      file: 'get+head-users-[id].ts',
+      route: 'GET /api/users/:id',
+      message: 'Inconsistent param name :id in GET /api/users/:id — users/[userId]/get.ts names this segment :userId',
+    }])
+  })
+})
+
+describe('resolveParamNameConsistency', () => {
+  it('accepts warn, error or unset and rejects anything else', () => {
+    expect(resolveParamNameConsistency()).toBeUndefined()
+    expect(resolveParamNameConsistency('error')).toBe('error')
+    expect(() => resolveParamNameConsistency('strict' as never)).toThrow(/Invalid paramNameConsistency "strict"/)
+  })
+})
@@ -1,4 +1,19 @@
-import { parseRouteName, parseDirectorySegment, validateRouteName, validateDirectorySegment, normalizeParamNames } from '../parse-route'
+import {
+  parseRouteName,
+  parseDirectorySegment,
+  validateRouteName,
+  validateDirectorySegment,
+  normalizeParamNames,
+  validateRestPosition,
+  expandOptionalSegments,
+  resolveParamTypes,
+  collectParamTypes,
+  stripParamConstraints,
+  parseGroupSegment,
+  resolvePathCase,
+  applyPathCase,
+  validateUniqueParamNames,
+} from '../parse-route'
 
 describe('parseRouteName', () => {
   it('converts [param] to :param (case preserved)', () => {
@@ -117,10 +132,23 @@ describe('validateRouteName', () => {
     expect(() => validateRouteName('[v1.2]')).toThrow(/only ASCII/)
   })
 
-  it('rejects a param glued to static text (no dash separator)', () => {
-    expect(() => validateRouteName('[a]x')).toThrow(/Invalid parameter syntax/)
-    expect(() => validateRouteName('x[a]')).toThrow(/Invalid parameter syntax/)
-    expect(() => validateRouteName('a-[b]x')).toThrow(/Invalid parameter syntax/)
+  it('rejects static text after a param without a "." or "~" separator', () => {
+    expect(() => validateRouteName('[a]x')).toThrow(/must start with "." or "~"/)
+    expect(() => validateRouteName('a-[b]x')).toThrow(/must start with "." or "~"/)
+    expect(() => validateRouteName('[a].x[b]c')).toThrow(/must start with "." or "~"/)
+  })
+
+  it('accepts params glued to static text within a segment', () => {
+    expect(() => validateRouteName('x[a]')).not.toThrow()
+    expect(() => validateRouteName('files-[name].json')).not.toThrow()
+    expect(() => validateRouteName('[name].[ext]')).not.toThrow()
+    expect(() => validateRouteName('[name]~raw')).not.toThrow()
+  })
+
+  it('rejects rest, optional and typed params in a mixed segment', () => {
+    expect(() => validateRouteName('[...path].json')).toThrow(/rest parameters must span a whole segment/)
+    expect(() => validateRouteName('v[[version]]')).toThrow(/Invalid parameter syntax/)
+    expect(() => validateRouteName('[id:int].json')).toThrow(/typed parameters must span a whole segment/)
   })
 
   it('rejects a leading or trailing dash (empty boundary segment)', () => {
@@ -140,6 +168,12 @@ describe('validateRouteName', () => {
     expect(() => validateRouteName('[ABC]')).not.toThrow()
     expect(() => validateRouteName('[a]-[b]')).not.toThrow()
   })
+
+  it('throws in the requested locale', () => {
+    expect(() => validateRouteName('[]', { locale: 'zh-CN' })).toThrow('不允许空参数 []，请使用 [id] 代替 []')
+    expect(() => validateRouteName('[user-id]', { locale: 'zh-CN' })).toThrow(`"[user-id]" 中的参数名 "user-id" 无效：只允许 ASCII 字母、数字和下划线`)
+    expect(() => validateDirectorySegment('[a b]', { locale: 'zh-CN' })).toThrow('目录 "[a b]" 中的参数语法无效：参数必须是不含空格的单个 [id] 路径段')
+  })
 })
 
 describe('validateDirectorySegment', () => {
@@ -155,8 +189,12 @@ describe('validateDirectorySegment', () => {
     expect(() => validateDirectorySegment('[]')).toThrow(/without spaces|single \[id\] segment/)
   })
 
-  it('rejects params glued to static text or multiple params', () => {
-    expect(() => validateDirectorySegment('users[id]')).toThrow(/single \[id\] segment/)
+  it('accepts params glued to static text', () => {
+    expect(() => validateDirectorySegment('v[version]')).not.toThrow()
+    expect(() => validateDirectorySegment('[name].[ext]')).not.toThrow()
+  })
+
+  it('rejects adjacent params', () => {
     expect(() => validateDirectorySegment('[a][b]')).toThrow(/single \[id\] segment/)
   })
 
@@ -171,8 +209,8 @@ describe('validateDirectorySegment', () => {
     expect(() => validateDirectorySegment('[user-id]')).toThrow(/only ASCII/)
   })
 
-  it('rejects a param glued to static text', () => {
-    expect(() => validateDirectorySegment('[a]x')).toThrow(/single \[id\] segment/)
+  it('rejects static text after a param without a separator', () => {
+    expect(() => validateDirectorySegment('[a]x')).toThrow(/must start with "." or "~"/)
   })
 })
 
@@ -198,3 +236,214 @@ describe('normalizeParamNames', () => {
     expect(normalizeParamNames('/api/user-info')).toBe('/api/user-info')
   })
 })
+
+describe('rest parameters', () => {
+  it('converts [...param] to a named *param wildcard', () => {
+    expect(parseRouteName('[...path]')).toBe('*path')
+    expect(parseRouteName('docs-[...slug]')).toBe('docs/*slug')
+    expect(parseRouteName('[org]-files-[...path]')).toBe(':org/files/*path')
+    expect(parseDirectorySegment('[...path]')).toBe('*path')
+  })
+
+  it('rejects a rest parameter that is not the last segment', () => {
+    expect(() => validateRouteName('[...path]-edit')).toThrow(/must be the last segment/)
+    expect(() => validateRouteName('[...a]-[b]')).toThrow(/must be the last segment/)
+  })
+
+  it('rejects invalid rest parameter names', () => {
+    expect(() => validateRouteName('[...]')).toThrow(/only ASCII/)
+    expect(() => validateRouteName('[...user-id]')).toThrow(/only ASCII/)
+    expect(() => validateDirectorySegment('[...用户]')).toThrow(/only ASCII/)
+  })
+
+  it('validates rest position across a full path', () => {
+    expect(() => validateRestPosition('/api/files/*path')).not.toThrow()
+    expect(() => validateRestPosition('/api/files/:id')).not.toThrow()
+    expect(() => validateRestPosition('/api/*path/meta')).toThrow(/"\[\.\.\.path\]".*must be the last segment/)
+  })
+
+  it('folds rest parameter casing for duplicate detection', () => {
+    expect(normalizeParamNames('/api/docs/*Path')).toBe('/api/docs/*path')
+  })
+})
+
+describe('optional parameters', () => {
+  it('converts [[param]] to :param? and [[...param]] to *param?', () => {
+    expect(parseRouteName('[[page]]')).toBe(':page?')
+    expect(parseRouteName('posts-[[page]]')).toBe('posts/:page?')
+    expect(parseRouteName('[org]-posts-[[page]]')).toBe(':org/posts/:page?')
+    expect(parseRouteName('docs-[[...slug]]')).toBe('docs/*slug?')
+  })
+
+  it('rejects an optional parameter that is not the last segment', () => {
+    expect(() => validateRouteName('[[page]]-posts')).toThrow(/optional parameters must be the last segment/)
+    expect(() => validateRouteName('[[a]]-[b]')).toThrow(/optional parameters must be the last segment/)
+  })
+
+  it('rejects malformed optional brackets', () => {
+    expect(() => validateRouteName('[[page]')).toThrow(/Invalid parameter syntax/)
+    expect(() => validateRouteName('[[]]')).toThrow(/Empty parameters/)
+    expect(() => validateRouteName('[[user-id]]')).toThrow(/only ASCII/)
+    expect(() => validateDirectorySegment('[[page]]')).toThrow(/single \[id\] segment/)
+  })
+
+  it('expands a trailing optional segment into both forms', () => {
+    expect(expandOptionalSegments('/api/posts/:page?')).toEqual(['/api/posts', '/api/posts/:page'])
+    expect(expandOptionalSegments('/api/docs/*slug?')).toEqual(['/api/docs', '/api/docs/*slug'])
+    expect(expandOptionalSegments('/:page?')).toEqual(['/', '/:page'])
+    expect(expandOptionalSegments('/api/posts/:page')).toEqual(['/api/posts/:page'])
+  })
+})
+
+describe('typed parameters', () => {
+  it('converts [name:type] to :name(regex) using built-in types', () => {
+    expect(parseRouteName('[id:int]')).toBe(':id(\\d+)')
+    expect(parseRouteName('users-[id:int]-posts')).toBe('users/:id(\\d+)/posts')
+    expect(parseRouteName('[a:alpha]-[b:int]')).toBe(':a([A-Za-z]+)/:b(\\d+)')
+    expect(parseRouteName('posts-[[page:int]]')).toBe('posts/:page(\\d+)?')
+    expect(parseDirectorySegment('[id:uuid]')).toMatch(/^:id\(\[0-9a-fA-F\]\{8\}-/)
+  })
+
+  it('uses custom param types', () => {
+    const paramTypes = resolveParamTypes({ year: '\\d{4}', code: /[A-Z]{3}/i })
+    expect(parseRouteName('reports-[y:year]', { paramTypes })).toBe('reports/:y(\\d{4})')
+    expect(parseDirectorySegment('[c:code]', { paramTypes })).toBe(':c([A-Z]{3})')
+    expect(parseRouteName('[id:int]', { paramTypes })).toBe(':id(\\d+)')
+  })
+
+  it('rejects unknown types and typed rest parameters', () => {
+    expect(() => validateRouteName('[id:num]')).toThrow(/Unknown parameter type "num"/)
+    expect(() => validateDirectorySegment('[id:num]')).toThrow(/Unknown parameter type "num"/)
+    expect(() => validateRouteName('[...path:int]')).toThrow(/rest parameters cannot have a type/)
+    expect(() => validateRouteName('[id:]')).toThrow(/Unknown parameter type ""/)
+  })
+
+  it('rejects invalid custom param types', () => {
+    expect(() => resolveParamTypes({ '1x': '\\d' })).toThrow(/Invalid param type name "1x"/)
+    expect(() => resolveParamTypes({ bad: '(' })).toThrow(/Invalid param type "bad"/)
+    expect(() => resolveParamTypes({ path: 'a/b' })).toThrow(/must not contain "\/"/)
+    expect(() => resolveParamTypes({ empty: '' })).toThrow(/non-empty/)
+  })
+
+  it('collects declared types and strips constraints', () => {
+    expect(collectParamTypes('users-[id:int]-posts-[slug]')).toEqual({ id: 'int' })
+    expect(collectParamTypes('[id:uuid]')).toEqual({ id: 'uuid' })
+    expect(stripParamConstraints('/api/users/:id(\\d+)/posts/:page(\\d+)?')).toBe('/api/users/:id/posts/:page?')
+  })
+
+  it('keeps regex constraints intact when folding param names', () => {
+    expect(normalizeParamNames('/api/:Id(\\D+)')).toBe('/api/:id(\\D+)')
+    expect(expandOptionalSegments('/api/posts/:page(\\d+)?')).toEqual(['/api/posts', '/api/posts/:page(\\d+)'])
+  })
+})
+
+describe('parseGroupSegment', () => {
+  it('returns the group name of a (name) directory', () => {
+    expect(parseGroupSegment('(admin)')).toBe('admin')
+    expect(parseGroupSegment('(marketing-site)')).toBe('marketing-site')
+  })
+
+  it('returns undefined for other directories', () => {
+    expect(parseGroupSegment('admin')).toBeUndefined()
+    expect(parseGroupSegment('[id]')).toBeUndefined()
+  })
+
+  it('rejects empty or invalid group names', () => {
+    expect(() => parseGroupSegment('()')).toThrow(/Invalid route group "\(\)"/)
+    expect(() => parseGroupSegment('(a b)')).toThrow(/Invalid route group/)
+    expect(() => parseGroupSegment('(管理)')).toThrow(/Invalid route group/)
+  })
+})
+
+describe('mixed segments', () => {
+  it('keeps static text glued to a param in the same segment', () => {
+    expect(parseRouteName('files-[name].json')).toBe('files/:name.json')
+    expect(parseRouteName('v[version]-status')).toBe('v:version/status')
+    expect(parseRouteName('[name].[ext]')).toBe(':name.:ext')
+    expect(parseRouteName('[name]~raw')).toBe(':name~raw')
+  })
+
+  it('treats the dash before a mixed segment as a separator, like before a param', () => {
+    expect(parseRouteName('api-v[version]')).toBe('api/v:version')
+    expect(parseRouteName('user-info-v[version]')).toBe('user-info/v:version')
+  })
+
+  it('converts mixed directory segments', () => {
+    expect(parseDirectorySegment('v[version]')).toBe('v:version')
+    expect(parseDirectorySegment('[name].json')).toBe(':name.json')
+  })
+
+  it('folds the casing of every param in a mixed segment', () => {
+    expect(normalizeParamNames('/api/v:Version/:Name.:EXT')).toBe('/api/v:version/:name.:ext')
+  })
+})
+
+describe('pathCase', () => {
+  it('converts static text to kebab-case or snake_case and leaves params alone', () => {
+    const kebab = resolvePathCase('kebab')
+    const snake = resolvePathCase('snake')
+    expect(parseRouteName('userProfile-[userId]', { pathCase: kebab })).toBe('user-profile/:userId')
+    expect(parseRouteName('user_info-[userId].jsonData', { pathCase: kebab })).toBe('user-info/:userId.json-data')
+    expect(parseRouteName('userProfile-[userId]', { pathCase: snake })).toBe('user_profile/:userId')
+    expect(parseRouteName('user-info', { pathCase: snake })).toBe('user_info')
+    expect(parseDirectorySegment('APIKeys', { pathCase: kebab })).toBe('api-keys')
+    expect(parseDirectorySegment('[orgId]', { pathCase: kebab })).toBe(':orgId')
+  })
+
+  it('keeps static text as written for preserve', () => {
+    expect(resolvePathCase()).toBeUndefined()
+    expect(resolvePathCase('preserve')).toBeUndefined()
+    expect(applyPathCase('/userProfile/:userId', undefined)).toBe('/userProfile/:userId')
+  })
+
+  it('passes each run of static text to a custom function and checks its result', () => {
+    const upper = resolvePathCase(text => text.toUpperCase())!
+    expect(applyPathCase('/api/users/:userId/posts/:id(\\d+)', upper)).toBe('/API/USERS/:userId/POSTS/:id(\\d+)')
+    expect(() => applyPathCase('/users', resolvePathCase(() => 'a/b'))).toThrow(/Invalid pathCase result "a\/b" for "users"/)
+    expect(() => applyPathCase('/users', resolvePathCase(() => ''))).toThrow(/must be non-empty/)
+  })
+
+  it('rejects unknown casings', () => {
+    expect(() => resolvePathCase('camel' as never)).toThrow(`Invalid pathCase "camel": expected 'preserve', 'kebab', 'snake' or a function`)
+  })
+})
+
+describe('validateUniqueParamNames', () => {
+  it('accepts distinct names, including names differing only in casing', () => {
+    expect(() => validateUniqueParamNames('/users/:userId/posts/:postId')).not.toThrow()
+    expect(() => validateUniqueParamNames('/users/:id/posts/:ID')).not.toThrow()
+  })
+
+  it('rejects a name repeated across segments, rest params and mixed segments', () => {
+    expect(() => validateUniqueParamNames('/users/:id/posts/:id')).toThrow(/Repeated parameter "id" in "\/users\/:id\/posts\/:id"/)
+    expect(() => validateUniqueParamNames('/files/:path/*path')).toThrow(/Repeated parameter "path"/)
+    expect(() => validateUniqueParamNames('/v:version/docs/:version.json')).toThrow(/Repeated parameter "version"/)
+    expect(() => validateUniqueParamNames('/users/:id(\\d+)/posts/:id?')).toThrow(/Repeated parameter "id"/)
+  })
+})
+
+describe('escapes in static text', () => {
+  it('decodes segment characters and keeps other escapes percent-encoded', () => {
+    expect(parseRouteName('user%2Did-[id]')).toBe('user-id/:id')
+    expect(parseRouteName('tags-%5Bdraft%5D')).toBe('tags-%5Bdraft%5D')
+    expect(parseRouteName('caf%c3%a9')).toBe('caf%C3%A9')
+    expect(parseRouteName('100%25')).toBe('100%25')
+    expect(parseDirectorySegment('%2Ewell-known')).toBe('.well-known')
+  })
+
+  it('registers router syntax characters behind a backslash', () => {
+    expect(parseRouteName('urn%3Aisbn-[id]')).toBe('urn\\:isbn/:id')
+    expect(parseDirectorySegment('v%2A')).toBe('v\\*')
+    expect(normalizeParamNames('/a\\:B/:Id')).toBe('/a\\:B/:id')
+    expect(() => validateUniqueParamNames('/a\\:id/:id')).not.toThrow()
+  })
+
+  it('leaves escapes alone when applying pathCase', () => {
+    expect(parseRouteName('userProfile%2DsettingsView', { pathCase: resolvePathCase('kebab') })).toBe('user-profile-settings-view')
+  })
+
+  it('rejects a "%" that does not start an escape', () => {
+    expect(() => validateRouteName('100%')).toThrow(/Invalid escape in "100%": "%" must start a %XX escape/)
+    expect(() => validateDirectorySegment('a%zz')).toThrow(/Invalid escape in directory "a%zz"/)
+  })
+})
@@ -0,0 +1,129 @@
+import { compareSpecificity, compareRoutes, analyzeRouteOverlaps } from '../route-order'
+
+describe('compareSpecificity', () => {
+  it('ranks static over typed param over param over rest at the first differing segment', () => {
+    const paths = ['/api/*path', '/api/:id', '/api/users', '/api/:id(\\d+)']
+    expect([...paths].sort(compareSpecificity)).toEqual(['/api/users', '/api/:id(\\d+)', '/api/:id', '/api/*path'])
+  })
+
+  it('compares segment by segment instead of by the presence of any param', () => {
+    expect(compareSpecificity('/api/users/:x', '/api/:id/posts')).toBeLessThan(0)
+    expect(compareSpecificity('/api/users/*rest', '/api/:id')).toBeLessThan(0)
+  })
+
+  it('ranks a param glued to static text between static and typed params', () => {
+    const paths = ['/files/:id', '/files/:id(\\d+)', '/files/:name.json', '/files/latest']
+    expect([...paths].sort(compareSpecificity)).toEqual(['/files/latest', '/files/:name.json', '/files/:id(\\d+)', '/files/:id'])
+  })
+
+  it('ranks static text with an escaped ":" as static, not as a glued param', () => {
+    expect(compareSpecificity('/api/urn\\:isbn', '/api/:id')).toBeLessThan(0)
+    expect(compareSpecificity('/api/urn\\:isbn', '/api/users')).toBe(0)
+  })
+
+  it('returns 0 for paths of the same shape', () => {
+    expect(compareSpecificity('/api/:id', '/api/:slug')).toBe(0)
+    expect(compareSpecificity('/api/users', '/api/posts')).toBe(0)
+  })
+})
+
+describe('compareRoutes', () => {
+  it('breaks ties by path, then puts ALL after method-specific routes', () => {
+    const routes = [
+      { method: 'ALL', path: '/api/health' },
+      { method: 'POST', path: '/api/health' },
+      { method: 'GET', path: '/api/health' },
+      { method: 'GET', path: '/api/about' },
+    ]
+    expect([...routes].sort(compareRoutes)).toEqual([
+      { method: 'GET', path: '/api/about' },
+      { method: 'GET', path: '/api/health' },
+      { method: 'POST', path: '/api/health' },
+      { method: 'ALL', path: '/api/health' },
+    ])
+  })
+})
+
+describe('analyzeRouteOverlaps', () => {
+  const kinds = (routes: Array<{ method: string; path: string }>) =>
+    analyzeRouteOverlaps([], routes).map(({ kind, route, shadowedBy }) =>
+      `${kind}: ${route.method} ${route.path} < ${shadowedBy.method} ${shadowedBy.path}`)
+
+  it('reports same-method routes whose params differ only by name as ambiguous', () => {
+    expect(kinds([
+      { method: 'GET', path: '/api/:id' },
+      { method: 'POST', path: '/api/:id' },
+      { method: 'GET', path: '/api/:slug' },
+    ])).toEqual(['ambiguous: GET /api/:slug < GET /api/:id'])
+  })
+
+  it('ignores overlaps that specificity ordering resolves on purpose', () => {
+    expect(kinds([
+      { method: 'GET', path: '/api/users/:x' },
+      { method: 'GET', path: '/api/:id(\\d+)' },
+      { method: 'GET', path: '/api/:slug([a-z-]+)' },
+      { method: 'GET', path: '/api/:name' },
+      { method: 'GET', path: '/api/:id/posts' },
+      { method: 'GET', path: '/api/*path' },
+    ])).toEqual([])
+  })
+
+  it('reports a broad route registered before a more specific one as shadowing it', () => {
+    expect(kinds([
+      { method: 'GET', path: '/api/:id' },
+      { method: 'GET', path: '/api/users' },
+      { method: 'ALL', path: '/files/*path' },
+      { method: 'POST', path: '/files/upload/:name' },
+      { method: 'GET', path: '/num/:n(\\d+)' },
+      { method: 'GET', path: '/num/42' },
+    ])).toEqual([
+      'shadowed: GET /api/users < GET /api/:id',
+      'shadowed: POST /files/upload/:name < ALL /files/*path',
+      'shadowed: GET /num/42 < GET /num/:n(\\d+)',
+    ])
+  })
+
+  it('reports partial overlaps when the earlier route is not more specific', () => {
+    expect(kinds([
+      { method: 'GET', path: '/api/:id/posts' },
+      { method: 'GET', path: '/api/users/:section' },
+      { method: 'GET', path: '/docs/:page' },
+      { method: 'GET', path: '/docs/:section?' },
+    ])).toEqual([
+      'overlap: GET /api/users/:section < GET /api/:id/posts',
+      'overlap: GET /docs/:section? < GET /docs/:page',
+    ])
+  })
+
+  it('checks mixed segments against literals and other mixed segments', () => {
+    expect(kinds([
+      { method: 'GET', path: '/files/:name.json' },
+      { method: 'GET', path: '/files/report.json' },
+      { method: 'GET', path: '/files/:name.xml' },
+      { method: 'GET', path: '/v:major/status' },
+      { method: 'GET', path: '/v:minor.:patch/status' },
+    ])).toEqual([
+      'shadowed: GET /files/report.json < GET /files/:name.json',
+      'overlap: GET /v:minor.:patch/status < GET /v:major/status',
+    ])
+  })
+
+  it('does not treat a typed param as covering a literal it rejects', () => {
+    expect(kinds([
+      { method: 'GET', path: '/num/:n(\\d+)' },
+      { method: 'GET', path: '/num/latest' },
+    ])).toEqual([])
+  })
+
+  it('checks added routes against routes registered earlier', () => {
+    const overlaps = analyzeRouteOverlaps(
+      [{ method: 'GET', path: '/api/*rest', file: 'a/get-[...rest].ts' }],
+      [{ method: 'GET', path: '/api/health', file: 'b/get-health.ts' }]
+    )
+    expect(overlaps).toEqual([{
+      kind: 'shadowed',
+      route: { method: 'GET', path: '/api/health', file: 'b/get-health.ts' },
+      shadowedBy: { method: 'GET', path: '/api/*rest', file: 'a/get-[...rest].ts' },
+    }])
+  })
+})
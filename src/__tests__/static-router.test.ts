@@ -447,4 +447,206 @@ describe('staticAutoRouter', () => {
 
     expect(mockApp.put).toHaveBeenCalledWith('/api/users/:id', handler)
   })
+
+  it('should register all and custom methods and recognize them in force patterns', async () => {
+    const mockApp: any = { all: jest.fn(), propfind: jest.fn(), $routes: undefined }
+
+    await staticAutoRouter({
+      routes: [
+        { method: 'all', path: '/api/health', handler },
+        { method: 'PROPFIND', path: '/api/files', handler },
+      ],
+      defaultRequiresAuth: true,
+      forcePublic: ['ALL /api/health', 'PROPFIND /api/files'],
+      logging: false,
+    })(mockApp)
+
+    expect(mockApp.all).toHaveBeenCalledWith('/api/health', handler)
+    expect(mockApp.propfind).toHaveBeenCalledWith('/api/files', handler)
+    expect(mockApp.$routes.publicRoutes).toEqual([
+      { method: 'ALL', path: '/api/health' },
+      { method: 'PROPFIND', path: '/api/files' },
+    ])
+  })
+
+  it('should skip routes whose method the app cannot register', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await staticAutoRouter({
+      routes: [{ method: 'search', path: '/api/users', handler }],
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(errors).toEqual(['❌ Skip route /api/users: the app has no search() method to register SEARCH routes'])
+    expect(mockApp.$routes.all).toEqual([])
+  })
+
+  it('should warn about routes shadowed by a broader route listed earlier and record them', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users/:id', handler },
+        { method: 'get', path: '/api/users/me', handler },
+        { method: 'get', path: '/api/health', handler },
+      ],
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(mockApp)
+
+    expect(warnings).toEqual([
+      '⚠️  Unreachable route: GET /api/users/me is shadowed by GET /api/users/:id',
+      '   ⚠️  GET /api/users/:id is registered first and matches every URL of GET /api/users/me',
+    ])
+    expect(mockApp.$routes.overlaps).toEqual([{
+      kind: 'shadowed',
+      route: { method: 'GET', path: '/api/users/me' },
+      shadowedBy: { method: 'GET', path: '/api/users/:id' },
+    }])
+  })
+
+  it('should warn about static paths that do not follow pathCase but register them as written', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const warnings: string[] = []
+
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/userProfile/:userId', handler },
+        { method: 'get', path: '/api/user-settings/:userId', handler },
+      ],
+      pathCase: 'kebab',
+      onLog: (level, msg) => { if (level === 'warn') warnings.push(msg) },
+    })(mockApp)
+
+    expect(warnings).toEqual([
+      '⚠️  Static route /api/userProfile/:userId does not follow the pathCase option — expected /api/user-profile/:userId',
+    ])
+    expect(mockApp.get).toHaveBeenCalledWith('/api/userProfile/:userId', handler)
+  })
+
+  it('should skip routes that repeat a param name', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await staticAutoRouter({
+      routes: [{ method: 'get', path: '/api/users/:id/posts/:id', handler }],
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).not.toHaveBeenCalled()
+    expect(errors[0]).toMatch(/^❌ Skip route \/api\/users\/:id\/posts\/:id: Repeated parameter "id"/)
+  })
+
+  it('should skip routes naming a param differently with paramNameConsistency: error', async () => {
+    const mockApp: any = { get: jest.fn(), put: jest.fn(), $routes: undefined }
+    const errors: string[] = []
+
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users/:userId', handler },
+        { method: 'put', path: '/api/users/:id', handler },
+      ],
+      paramNameConsistency: 'error',
+      onLog: (level, msg) => { if (level === 'error') errors.push(msg) },
+    })(mockApp)
+
+    expect(mockApp.get).toHaveBeenCalledWith('/api/users/:userId', handler)
+    expect(mockApp.put).not.toHaveBeenCalled()
+    expect(errors).toEqual([
+      '❌ Skip route PUT /api/users/:id',
+      '   ❌ Inconsistent param name :id in PUT /api/users/:id — GET /api/users/:userId names this segment :userId',
+    ])
+  })
+
+  it('should reject with an AggregateError of the skipped routes when onError is throw', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const router = staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users', handler },
+        { method: 'get', path: '/api/users/[id]', handler },
+        { method: 'get', path: '/api/users', handler },
+      ],
+      onError: 'throw',
+      logging: false,
+    })
+
+    const rejection = await router(mockApp).then(() => undefined, (err: unknown) => err)
+    expect(rejection).toBeInstanceOf(AggregateError)
+    expect((rejection as AggregateError).errors.map((err: Error) => err.message)).toEqual([
+      "GET /api/users/[id]: use Express-style :param (e.g. '/users/:id') — file-name [param] syntax is not valid in static routes",
+      'GET /api/users: Duplicate route: GET /api/users',
+    ])
+    expect(mockApp.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('should send skipped routes to onDiagnostic with stable codes', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const diagnostics: unknown[] = []
+    const logged: string[] = []
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users', handler },
+        { method: 'get', path: '/api/users', handler },
+        { method: 'get', path: '/api/posts', handler: null },
+      ],
+      onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+      onLog: (level, message) => logged.push(`${level} ${message}`),
+    })(mockApp)
+
+    expect(diagnostics).toEqual([
+      { code: 'AR_DUPLICATE_ROUTE', severity: 'error', route: 'GET /api/users', message: 'Duplicate route: GET /api/users' },
+      { code: 'AR_INVALID_HANDLER', severity: 'error', route: 'GET /api/posts', message: 'handler is null/undefined' },
+    ])
+    expect(logged.every(line => line.startsWith('info '))).toBe(true)
+  })
+
+  it('should log the summary and skipped routes in the configured locale', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logged: string[] = []
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users', handler },
+        { method: 'get', path: '/api/users', handler },
+      ],
+      locale: 'zh-CN',
+      onLog: (level, message) => logged.push(message),
+    })(mockApp)
+
+    expect(logged).toEqual([
+      '🔄 正在加载 2 个静态路由',
+      '❌ 重复的路由：GET /api/users — 已跳过',
+      '✅ GET     /api/users',
+      '📋 已注册路由：',
+      '   总计：1',
+      '   公开：1',
+      '   受保护：0',
+    ])
+  })
+
+  it('should filter by logLevel and log JSON lines with logFormat json', async () => {
+    const mockApp: any = { get: jest.fn(), $routes: undefined }
+    const logged: string[] = []
+    await staticAutoRouter({
+      routes: [
+        { method: 'get', path: '/api/users', handler },
+        { method: 'get', path: '/api/users', handler },
+      ],
+      logLevel: 'warn',
+      logFormat: 'json',
+      onLog: (level, message) => logged.push(message),
+    })(mockApp)
+
+    expect(logged.map(line => JSON.parse(line))).toEqual([
+      { level: 'error', message: 'Duplicate route: GET /api/users', code: 'AR_DUPLICATE_ROUTE', route: 'GET /api/users' },
+    ])
+
+    const infoLines: string[] = []
+    await staticAutoRouter({
+      routes: [{ method: 'get', path: '/api/posts', handler: createHandler(handler, { requiresAuth: true }) }],
+      logFormat: 'json',
+      onLog: (level, message) => infoLines.push(message),
+    })({ get: jest.fn(), $routes: undefined })
+    expect(infoLines.map(line => JSON.parse(line))).toContainEqual({ level: 'info', message: 'GET /api/posts', method: 'GET', path: '/api/posts', requiresAuth: true })
+  })
 })
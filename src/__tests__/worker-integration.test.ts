@@ -1,7 +1,9 @@
 import { generateManifest } from '../build-worker-manifest'
+import { scanRoutes } from '../auto-router'
+import type { RouteDiagnostic } from '../diagnostics'
 import { createWorkerRouter, type WorkerManifestRoute, type WorkerRouteContext } from '../worker-manifest'
 import { mkdtempSync, writeFileSync, rmSync, mkdirSync, existsSync } from 'fs'
-import { join } from 'path'
+import { join, relative, resolve } from 'path'
 import { tmpdir } from 'os'
 
 describe('Worker integration (end-to-end)', () => {
@@ -249,4 +251,31 @@ describe('Worker integration (end-to-end)', () => {
     expect(errorCaptured).toBeInstanceOf(Error)
     expect((errorCaptured as Error).message).toBe('Intentional error')
   })
+
+
+  it('applies the route.ts export rules of scanRoutes to the manifest', async () => {
+    // scanRoutes imports the controllers, so they live under the project like the autoRouter fixtures
+    const controllersDir = join(process.cwd(), '__tests__', 'controllers-module-exports')
+    const outputFile = join(testDir, 'routes.ts')
+    for (const dir of ['users', 'posts', 'drafts']) mkdirSync(join(controllersDir, dir), { recursive: true })
+    writeFileSync(join(controllersDir, 'users', 'route.js'), 'export const GET = async () => {}\nexport const schema = {}')
+    writeFileSync(join(controllersDir, 'posts', 'route.js'), 'const list = async () => {}\nexport const GET = list, POST = async () => {}\nexport { list as HEAD }')
+    writeFileSync(join(controllersDir, 'drafts', 'route.js'), 'export default async () => {}')
+
+    const scanned = await scanRoutes({ dir: controllersDir, prefix: '/api', convention: 'module', logging: false })
+    const diagnostics: RouteDiagnostic[] = []
+    const manifest = generateManifest({ controllersDir, outputFile, prefix: '/api', ext: 'js', convention: 'module', onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+
+    const listed = manifest.split('\n').flatMap(line => {
+      const entry = /\{ pattern: '([^']*)', method: '(\w+)'/.exec(line)
+      return entry ? [`${entry[2]} ${entry[1]}`] : []
+    })
+    expect(listed).toEqual(scanned.routes.map(route => `${route.method} ${route.path}`))
+    expect(listed.sort()).toEqual(['GET /api/posts', 'HEAD /api/posts', 'POST /api/posts'])
+    const codes = (found: RouteDiagnostic[]) => found.map(({ code, file }) => `${code} ${relative(controllersDir, resolve(controllersDir, file!))}`).sort()
+    expect(codes(diagnostics)).toEqual(codes(scanned.diagnostics))
+    expect(codes(diagnostics)).toEqual(['AR_MODULE_DEFAULT_EXPORT drafts/route.js', 'AR_UNKNOWN_MODULE_EXPORTS users/route.js'])
+
+    rmSync(controllersDir, { recursive: true, force: true })
+  })
 })
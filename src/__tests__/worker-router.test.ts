@@ -271,6 +271,45 @@ describe('createWorkerRouter', () => {
     expect(order).toEqual(['config-mw', 'route-mw', 'handler'])
   })
 
+  it('matches ALL routes for any method, after method-specific routes', async () => {
+    const routes: WorkerManifestRoute[] = [
+      { pattern: '/api/health', method: 'GET', handler: async () => 'get' },
+      { pattern: '/api/health', method: 'ALL', handler: async () => 'all' },
+    ]
+    const router = createWorkerRouter({ routes })
+
+    const get = await router.fetch(new Request('http://localhost/api/health', { method: 'GET' }), {}, {} as ExecutionContext)
+    const post = await router.fetch(new Request('http://localhost/api/health', { method: 'POST' }), {}, {} as ExecutionContext)
+
+    expect(await get.json()).toBe('get')
+    expect(await post.json()).toBe('all')
+  })
+
+  it('runs directory middlewares root to leaf before createHandler and route-level middlewares', async () => {
+    const order: string[] = []
+    const track = (name: string) => async (ctx: WorkerRouteContext, next: () => Promise<unknown>) => {
+      order.push(name)
+      await next()
+    }
+    const handler = createHandler(async () => {
+      order.push('handler')
+      return { ok: true }
+    }, undefined, [track('config-mw')])
+    const routes: WorkerManifestRoute[] = [{
+      pattern: '/api/admin/users',
+      method: 'GET',
+      handler,
+      middlewares: [track('route-mw')],
+      directoryMiddlewares: [track('root-mw'), [track('admin-mw-1'), track('admin-mw-2')]],
+    }]
+    const router = createWorkerRouter({ routes })
+
+    const res = await router.fetch(new Request('http://localhost/api/admin/users', { method: 'GET' }), {}, {} as ExecutionContext)
+
+    expect(res.status).toBe(200)
+    expect(order).toEqual(['root-mw', 'admin-mw-1', 'admin-mw-2', 'config-mw', 'route-mw', 'handler'])
+  })
+
   it('rejects non-function middlewares with TypeError', async () => {
     const routes: WorkerManifestRoute[] = [
       { pattern: '/api/invalid', method: 'GET', handler: async () => 'OK', middlewares: ['not-a-middleware' as any] }
@@ -676,4 +715,123 @@ describe('createWorkerRouter', () => {
     const res = await router.fetch(new Request('http://localhost/api/42', { method: 'GET' }), {}, {} as ExecutionContext)
     expect(await res.json()).toEqual({ userId: '42' })
   })
+
+  it('captures remaining segments for a *rest pattern', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ctx.params
+    const routes: WorkerManifestRoute[] = [{ pattern: '/api/docs/*path', method: 'GET', handler }]
+    const router = createWorkerRouter({ routes })
+
+    const res = await router.fetch(new Request('http://localhost/api/docs/guide/intro%20page', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await res.json()).toEqual({ path: 'guide/intro page' })
+
+    // A rest segment needs at least one value
+    const bare = await router.fetch(new Request('http://localhost/api/docs', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(bare.status).toBe(404)
+  })
+
+  it('matches a trailing optional :param? with or without the segment', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ctx.params
+    const routes: WorkerManifestRoute[] = [{ pattern: '/api/posts/:page?', method: 'GET', handler }]
+    const router = createWorkerRouter({ routes })
+
+    const withPage = await router.fetch(new Request('http://localhost/api/posts/2', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await withPage.json()).toEqual({ page: '2' })
+
+    const withoutPage = await router.fetch(new Request('http://localhost/api/posts', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await withoutPage.json()).toEqual({})
+
+    const tooDeep = await router.fetch(new Request('http://localhost/api/posts/2/3', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(tooDeep.status).toBe(404)
+  })
+
+  it('enforces :param(regex) constraints and falls through on mismatch', async () => {
+    const byId = async (ctx: WorkerRouteContext) => ({ route: 'id', ...ctx.params })
+    const bySlug = async (ctx: WorkerRouteContext) => ({ route: 'slug', ...ctx.params })
+    const routes: WorkerManifestRoute[] = [
+      { pattern: '/api/posts/:id(\\d+)', method: 'GET', handler: byId },
+      { pattern: '/api/posts/:slug', method: 'GET', handler: bySlug },
+    ]
+    const router = createWorkerRouter({ routes })
+
+    const numeric = await router.fetch(new Request('http://localhost/api/posts/42', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await numeric.json()).toEqual({ route: 'id', id: '42' })
+
+    const text = await router.fetch(new Request('http://localhost/api/posts/hello', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await text.json()).toEqual({ route: 'slug', slug: 'hello' })
+
+    // The constraint is anchored to the whole segment
+    const mixed = await router.fetch(new Request('http://localhost/api/posts/42abc', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await mixed.json()).toEqual({ route: 'slug', slug: '42abc' })
+  })
+
+  it('enforces constraints on an optional :param(regex)? segment', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ctx.params
+    const routes: WorkerManifestRoute[] = [{ pattern: '/api/posts/:page(\\d+)?', method: 'GET', handler }]
+    const router = createWorkerRouter({ routes })
+
+    const withPage = await router.fetch(new Request('http://localhost/api/posts/3', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await withPage.json()).toEqual({ page: '3' })
+    const bare = await router.fetch(new Request('http://localhost/api/posts', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(await bare.json()).toEqual({})
+    const invalid = await router.fetch(new Request('http://localhost/api/posts/x', { method: 'GET' }), {}, {} as ExecutionContext)
+    expect(invalid.status).toBe(404)
+  })
+
+  it('extracts params glued to static text within a segment', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ctx.params
+    const routes: WorkerManifestRoute[] = [
+      { pattern: '/api/files/:name.json', method: 'GET', handler },
+      { pattern: '/api/v:version/status', method: 'GET', handler },
+      { pattern: '/api/assets/:name.:ext', method: 'GET', handler },
+    ]
+    const router = createWorkerRouter({ routes })
+    const get = (path: string) => router.fetch(new Request(`http://localhost${path}`, { method: 'GET' }), {}, {} as ExecutionContext)
+
+    expect(await (await get('/api/files/report.v2.json')).json()).toEqual({ name: 'report.v2' })
+    expect(await (await get('/api/v2/status')).json()).toEqual({ version: '2' })
+    expect(await (await get('/api/assets/logo%20dark.svg')).json()).toEqual({ name: 'logo dark', ext: 'svg' })
+    expect((await get('/api/files/report.xml')).status).toBe(404)
+    expect((await get('/api/files/.json')).status).toBe(404)
+  })
+
+  it('honors the trailingSlash policy', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ({ path: new URL(ctx.req.url).pathname })
+    const routes: WorkerManifestRoute[] = [{ pattern: '/api/users', method: 'GET', handler }]
+    const get = (router: ReturnType<typeof createWorkerRouter>, path: string) =>
+      router.fetch(new Request(`http://localhost${path}`, { method: 'GET' }), {}, {} as ExecutionContext)
+
+    const ignore = createWorkerRouter({ routes })
+    expect((await get(ignore, '/api/users/')).status).toBe(200)
+
+    const strict = createWorkerRouter({ routes, trailingSlash: 'strict' })
+    expect((await get(strict, '/api/users/')).status).toBe(404)
+    expect((await get(strict, '/api/users')).status).toBe(200)
+
+    const redirect = createWorkerRouter({ routes, trailingSlash: 'redirect' })
+    const redirected = await get(redirect, '/api/users/?page=2')
+    expect(redirected.status).toBe(308)
+    expect(redirected.headers.get('Location')).toBe('http://localhost/api/users?page=2')
+    expect((await get(redirect, '/api/missing/')).status).toBe(404)
+
+    expect(() => createWorkerRouter({ routes, trailingSlash: 'drop' as never })).toThrow(/Invalid trailingSlash "drop"/)
+  })
+
+  it('matches escaped and percent-encoded static text literally', async () => {
+    const handler = async (ctx: WorkerRouteContext) => ({ params: ctx.params })
+    const routes: WorkerManifestRoute[] = [
+      { pattern: '/.well-known/openid-configuration', method: 'GET', handler },
+      { pattern: '/api/a\\:b', method: 'GET', handler },
+      { pattern: '/api/tags/%5Bdraft%5D', method: 'GET', handler },
+      { pattern: '/api/v\\:x/:name.json', method: 'GET', handler },
+    ]
+    const router = createWorkerRouter({ routes })
+    const get = (path: string) => router.fetch(new Request(`http://localhost${path}`, { method: 'GET' }), {}, {} as ExecutionContext)
+
+    expect((await get('/.well-known/openid-configuration')).status).toBe(200)
+    expect(await (await get('/api/a:b')).json()).toEqual({ params: {} })
+    expect((await get('/api/tags/[draft]')).status).toBe(200)
+    expect((await get('/api/tags/%5Bdraft%5D')).status).toBe(200)
+    expect(await (await get('/api/v:x/report.json')).json()).toEqual({ params: { name: 'report' } })
+    expect((await get('/api/v1/report.json')).status).toBe(404)
+  })
 })
@@ -2,18 +2,24 @@
  * Shared auth resolution and force-pattern tracking for auto-router.
  */
 import { matchesFilter } from './matches-filter'
-
-export type LogFn = (level: 'info' | 'warn' | 'error', message: string) => void
+import type { ReportFn } from './diagnostics'
+import { getMessages, type Locale } from './messages'
 
 export interface AuthResolutionOptions {
   routePath: string
   method: string
   routeMeta?: { requiresAuth?: boolean }
+  /** Meta inherited from directory `_meta` modules (file-based routes only). */
+  inheritedMeta?: { requiresAuth?: boolean }
   defaultRequiresAuth: boolean
   forcePublic?: string[]
   forceProtected?: string[]
   /** Optional prefix for candidate path generation (file-based routes only). */
   prefix?: string
+  /** Route groups the route belongs to, for `(name)` patterns (file-based routes only). */
+  groups?: readonly string[]
+  /** Configured method set, for recognizing `METHOD /path` patterns. */
+  methods?: readonly string[]
 }
 
 export interface AuthResolutionResult {
@@ -25,12 +31,12 @@ export interface AuthResolutionResult {
 /**
  * Resolve the `requiresAuth` state for a single route.
  *
- * Priority: explicit meta > forceProtected > forcePublic > defaultRequiresAuth
+ * Priority: explicit meta > forceProtected > forcePublic > directory `_meta` > defaultRequiresAuth
  */
 export function resolveAuth(options: AuthResolutionOptions): AuthResolutionResult {
-  const { routePath, method, routeMeta, defaultRequiresAuth, forcePublic, forceProtected, prefix } = options
-  const matchedPublicPattern = forcePublic?.find(pattern => matchesFilter(routePath, method, pattern, prefix))
-  const matchedProtectedPattern = forceProtected?.find(pattern => matchesFilter(routePath, method, pattern, prefix))
+  const { routePath, method, routeMeta, inheritedMeta, defaultRequiresAuth, forcePublic, forceProtected, prefix, groups, methods } = options
+  const matchedPublicPattern = forcePublic?.find(pattern => matchesFilter(routePath, method, pattern, prefix, groups, methods))
+  const matchedProtectedPattern = forceProtected?.find(pattern => matchesFilter(routePath, method, pattern, prefix, groups, methods))
 
   if (routeMeta?.requiresAuth !== undefined) {
     return { requiresAuth: routeMeta.requiresAuth, matchedPublicPattern, matchedProtectedPattern }
@@ -44,6 +50,10 @@ export function resolveAuth(options: AuthResolutionOptions): AuthResolutionResul
     return { requiresAuth: false, matchedPublicPattern, matchedProtectedPattern }
   }
 
+  if (inheritedMeta?.requiresAuth !== undefined) {
+    return { requiresAuth: inheritedMeta.requiresAuth, matchedPublicPattern, matchedProtectedPattern }
+  }
+
   return { requiresAuth: defaultRequiresAuth, matchedPublicPattern, matchedProtectedPattern }
 }
 
@@ -73,42 +83,26 @@ export class ForcePatternTracker {
     this.overriddenByMeta.push({ route, pattern, type })
   }
 
-  /** Emit warnings for conflicts, overrides, and unmatched patterns. */
-  logWarnings(log: LogFn, forcePublic?: string[], forceProtected?: string[]): void {
+  /** Emit warnings for conflicts, overrides, and unmatched patterns, in `locale`. */
+  logWarnings(report: ReportFn, forcePublic?: string[], forceProtected?: string[], locale?: Locale): void {
+    const msg = getMessages(locale)
     for (const { route, publicPattern, protectedPattern } of this.conflictRoutes) {
-      log(
-        'warn',
-        `⚠️  Route "${route}" matched both forcePublic ("${publicPattern}") and forceProtected ("${protectedPattern}") — forceProtected wins`
-      )
+      const message = msg.forcePatternConflict(route, publicPattern, protectedPattern)
+      report({ code: 'AR_FORCE_PATTERN_CONFLICT', severity: 'warn', route, pattern: protectedPattern, message }, [`⚠️  ${message}`])
     }
 
     for (const { route, pattern, type } of this.overriddenByMeta) {
-      log(
-        'warn',
-        `⚠️  ${type} pattern "${pattern}" matched "${route}" but has no effect — route has explicit createHandler meta`
-      )
-    }
-
-    if (forcePublic) {
-      for (const pattern of forcePublic) {
-        if (!this.matchedForcePublicPatterns.has(pattern)) {
-          log(
-            'warn',
-            `⚠️  forcePublic pattern "${pattern}" did not match any registered route (check for typos or outdated config)`
-          )
-        }
-      }
+      const message = msg.forcePatternOverridden(type, pattern, route)
+      report({ code: 'AR_FORCE_PATTERN_OVERRIDDEN', severity: 'warn', route, pattern, message }, [`⚠️  ${message}`])
     }
 
-    if (forceProtected) {
-      for (const pattern of forceProtected) {
-        if (!this.matchedForceProtectedPatterns.has(pattern)) {
-          log(
-            'warn',
-            `⚠️  forceProtected pattern "${pattern}" did not match any registered route (check for typos or outdated config)`
-          )
-        }
-      }
+    const unmatched = [
+      ...(forcePublic ?? []).filter(pattern => !this.matchedForcePublicPatterns.has(pattern)).map(pattern => ({ pattern, type: 'forcePublic' })),
+      ...(forceProtected ?? []).filter(pattern => !this.matchedForceProtectedPatterns.has(pattern)).map(pattern => ({ pattern, type: 'forceProtected' })),
+    ]
+    for (const { pattern, type } of unmatched) {
+      const message = msg.forcePatternUnmatched(type, pattern)
+      report({ code: 'AR_FORCE_PATTERN_UNMATCHED', severity: 'warn', pattern, message }, [`⚠️  ${message}`])
     }
   }
 }
\ No newline at end of file
@@ -1,9 +1,21 @@
-import { loadRoutes } from './load-routes'
-import type { AppLike } from './handler'
+import { loadRoutes, registeredPattern, scanControllerRoutes, type LoadRoutesOptions } from './load-routes'
+import type { AppLike, RegisteredRoute, RouteInfo } from './handler'
 import { compileIgnorePatterns, type CompiledIgnorePattern, type IgnorePattern } from './ignore'
+import { resolveParamTypes, resolvePathCase, type PathCase } from './parse-route'
+import type { RouteConvention, TrailingSlashPolicy } from './constants'
+import { resolveParamNameConsistency, type ParamNameConsistency } from './param-names'
+import { createRouteErrors, resolveErrorPolicy, type ErrorPolicy } from './route-errors'
+import { createReporter, type ReportFn, type RouteDiagnostic } from './diagnostics'
+import { resolveLocale, type Locale } from './messages'
+import { createLogger, resolveLogFormat, resolveLogLevel, type LogFormat, type LogLevel, type OnLogLevel } from './logger'
+import { createHotRouteTable } from './hot-routes'
+import { watchRoutes, type WatchedConfig } from './watch'
+import { resolveLazy, resolveRouteManifest } from './lazy-routes'
+import { reportRouteOverlaps } from './route-order'
+import { resolveFileNameParser, resolveMethods, resolveTrailingSlash, type FileNameParser, type FileNamePreset, type FileNameValidator } from './validation'
 
 /** Single auto-router configuration options. */
-export interface AutoRouterOptions {
+export interface AutoRouterOptions<TLogLevel extends LogLevel = Exclude<LogLevel, 'debug'>> {
   dir?: string
   prefix?: string | string[]
   defaultRequiresAuth?: boolean
@@ -12,7 +24,90 @@ export interface AutoRouterOptions {
   forcePublic?: string[]
   forceProtected?: string[]
   ignore?: IgnorePattern[]
-  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void
+  paramTypes?: Record<string, string | RegExp>
+  inlineParamRegex?: boolean
+  groupTags?: Record<string, string[]>
+  convention?: RouteConvention
+  methods?: string[]
+  parseFileName?: FileNamePreset | FileNameParser
+  pathCase?: PathCase
+  trailingSlash?: TrailingSlashPolicy
+  paramNameConsistency?: ParamNameConsistency
+  onError?: ErrorPolicy
+  locale?: Locale
+  logLevel?: TLogLevel
+  logFormat?: LogFormat
+  onLog?: (level: OnLogLevel<TLogLevel>, message: string) => void
+  onDiagnostic?: (diagnostic: RouteDiagnostic) => void
+  watch?: boolean
+  lazy?: boolean
+  routeManifest?: RouteInfo[]
+}
+
+/**
+ * Validate each config and expand it into one `loadRoutes` config per
+ * prefix. Option errors throw here, when the router is created.
+ */
+function expandOptions(options: AutoRouterOptions<LogLevel> | AutoRouterOptions<LogLevel>[]): LoadRoutesOptions[] {
+  const optionsArray = Array.isArray(options) ? options : [options]
+
+  const expandedOptionsArray: LoadRoutesOptions[] = []
+
+  for (const config of optionsArray) {
+    // Compile once per config — shared by every prefix the config expands into.
+    const locale = resolveLocale(config.locale)
+    const ignore = compileIgnorePatterns(config.ignore, locale)
+    const paramTypes = resolveParamTypes(config.paramTypes, locale)
+    const methods = resolveMethods(config.methods, locale)
+    const parseFileName = resolveFileNameParser(config.parseFileName, locale)
+    const pathCase = resolvePathCase(config.pathCase, locale)
+    const trailingSlash = resolveTrailingSlash(config.trailingSlash, locale)
+    const paramNameConsistency = resolveParamNameConsistency(config.paramNameConsistency, locale)
+    const onError = resolveErrorPolicy(config.onError, locale)
+    const logLevel = resolveLogLevel(config.logLevel, locale)
+    const logFormat = resolveLogFormat(config.logFormat, locale)
+    const convention = config.convention ?? 'file'
+    const watch = config.watch ?? false
+    const lazy = resolveLazy(config.lazy, convention, watch, config.routeManifest, locale)
+    const routeManifest = resolveRouteManifest(config.routeManifest, locale)
+    const prefixes = Array.isArray(config.prefix)
+      ? config.prefix
+      : [config.prefix !== undefined ? config.prefix : '/api']
+
+    for (const prefix of prefixes) {
+      const normalizedPrefix = prefix.length > 1 && prefix.endsWith('/') ? prefix.slice(0, -1) : prefix
+      expandedOptionsArray.push({
+        dir: config.dir || './controllers',
+        prefix: normalizedPrefix,
+        defaultRequiresAuth: config.defaultRequiresAuth ?? false,
+        strict: config.strict ?? true,
+        logging: config.logging ?? true,
+        forcePublic: config.forcePublic,
+        forceProtected: config.forceProtected,
+        ignore,
+        paramTypes,
+        inlineParamRegex: config.inlineParamRegex ?? false,
+        groupTags: config.groupTags,
+        convention,
+        methods,
+        parseFileName,
+        pathCase,
+        trailingSlash,
+        paramNameConsistency,
+        onError,
+        locale,
+        logLevel,
+        logFormat,
+        onLog: config.onLog,
+        onDiagnostic: config.onDiagnostic,
+        watch,
+        lazy,
+        routeManifest,
+      })
+    }
+  }
+
+  return expandedOptionsArray
 }
 
 /**
@@ -27,8 +122,9 @@ export interface AutoRouterOptions {
  *     false: All interfaces are public by default, unless explicitly set requiresAuth: true
  *     true: All interfaces are protected by default, unless explicitly set requiresAuth: false
  *   - forcePublic: Routes always treated as public, regardless of defaultRequiresAuth
- *     Supports exact paths (with or without prefix) and wildcard suffix /*
- *     Priority: createHandler explicit meta > forceProtected/forcePublic > defaultRequiresAuth
+ *     Supports exact paths (with or without prefix), wildcard suffix /* and
+ *     route groups like '(admin)'
+ *     Priority: createHandler explicit meta > forceProtected/forcePublic > directory `_meta` > defaultRequiresAuth
  *   - forceProtected: Routes always treated as protected, regardless of defaultRequiresAuth
  *     Same pattern rules as forcePublic
  *     When a route matches both forcePublic and forceProtected, forceProtected wins
@@ -36,12 +132,75 @@ export interface AutoRouterOptions {
  *     true: Only allow pure function and createHandler export methods
  *     false: Allow ordinary object { handler, meta } export method, but will show warning
  *   - logging: Whether to output route registration logs (default: true)
+ *   - logLevel: Lowest level logged, to onLog or the console (default: 'info').
+ *     'warn' drops the per-route and summary lines but keeps warnings and
+ *     errors; 'debug' adds entries skipped by ignore; 'silent' logs nothing
+ *   - logFormat: 'pretty' (default) or 'json' — one JSON object per line, with
+ *     method, path, file and requiresAuth on route lines and the diagnostic
+ *     code, file and route on warnings and errors
  *   - ignore: File/folder names to skip during scanning, matched as regex
  *     patterns against each entry's basename (e.g. '^__' skips `__`-prefixed
  *     files AND folders at any depth). Accepts regex strings, RegExp instances,
  *     or { pattern, type: 'file' | 'dir' | 'both' } objects to scope a pattern
  *     to files, folders, or both (a bare string / RegExp means both).
+ *   - paramTypes: Custom types for `[name:type]` params, as regex sources or
+ *     RegExp instances, merged over the built-ins (int, uuid, slug, alpha)
+ *   - inlineParamRegex: Register typed params with an inline regex, e.g.
+ *     `:id(\d+)`, and rest params as `:path(.+)` instead of `*path`, for
+ *     pre-v8 path-to-regexp frameworks (Express 4, @koa/router ≤ 12)
+ *     (default: false — registers the plain `:id` and `*path`; rest routes
+ *     are then skipped with an error on Express 4, which would misroute them)
+ *   - groupTags: Tags merged into the meta of every route inside a `(name)`
+ *     route group, e.g. { admin: ['Admin'] }
+ *   - convention: Route file convention (default: 'file')
+ *     'file': method-named files (get-users.ts) with a single default export
+ *     'module': route.ts files whose directory is the URL, exporting one
+ *     handler per HTTP method (export const GET, export const POST)
+ *   - methods: Accepted HTTP method prefixes, replacing the default set
+ *     (get, post, put, delete, patch, head, options), e.g.
+ *     [...HTTP_METHODS, ...EXTENDED_HTTP_METHODS] adds search/query/propfind/report.
+ *     The `all-` prefix is always accepted and registered with app.all()
+ *   - parseFileName: File-name convention of the 'file' convention (default:
+ *     'method-name', e.g. get-users.ts). 'name.method' reads users.get.ts,
+ *     'next' reads users/[id].ts as every method with index.ts for the
+ *     directory; a function returns { method, routeName } or null to skip
+ *   - pathCase: Casing of static URL text from file and directory names
+ *     (default: 'preserve'). 'kebab' turns get-userProfile.ts into /user-profile,
+ *     'snake' into /user_profile; a function receives each run of static text.
+ *     Param names are never changed; duplicates are detected after the transform
+ *   - trailingSlash: Trailing-slash handling, matching createWorkerRouter
+ *     (default: unset — the framework decides). 'ignore' also registers
+ *     `/users/` with the route's handlers, 'redirect' registers `/users/` as a
+ *     308 redirect to `/users`, 'strict' registers only `/users`
+ *   - paramNameConsistency: Check that routes of one config name the param at
+ *     each position alike (default: unset — no check). 'warn' logs
+ *     get-users-[id].ts next to users/[userId]/get.ts; 'error' also skips the
+ *     route whose name differs from the one registered first
+ *   - onError: What a route error does (default: 'log'). 'log' logs it and
+ *     keeps loading; 'throw' also collects every error of the scan — bad file
+ *     names, failed imports, duplicates — and rejects the plugin promise with
+ *     an AggregateError listing each file and reason, after all configs load
+ *   - locale: Language of log lines, diagnostic messages and validation errors
+ *     (default: 'en'); 'zh-CN' for Chinese. Diagnostic codes do not change
  *   - onLog: Custom logging callback for integration with own logging systems
+ *     ('debug' lines only reach it under logLevel: 'debug')
+ *   - onDiagnostic: Structured callback for every warning and error, e.g.
+ *     { code: 'AR_DUPLICATE_ROUTE', severity, file, route, message }. When set,
+ *     warnings and errors go here instead of onLog/console; info lines do not
+ *   - watch: Development hot reload (default: false). Watches dir and, after
+ *     a change, re-imports edited files, registers new routes and stubs
+ *     deleted ones (they fall through to the framework's 404), keeping
+ *     app.$routes and app.$registeredRoutes in sync and logging each added,
+ *     removed and reloaded route. app.$unwatchRoutes() stops watching.
+ *     Needs recursive fs.watch (Node 20+ on Linux)
+ *   - lazy: Import each route file on its first request instead of at startup
+ *     (default: false), for cold starts with many controllers. Routes are
+ *     registered from file names, with meta and auth from routeManifest;
+ *     _meta and _middleware files, and route files the manifest lacks, still
+ *     load up front. Export errors surface on the first request. Needs
+ *     routeManifest and convention 'file'; cannot be combined with watch
+ *   - routeManifest: The routes of scanRoutes(), e.g. saved as JSON at build
+ *     time, giving lazy routes their createHandler meta and requiresAuth
  *
  * Usage:
  *   // Single configuration
@@ -56,53 +215,80 @@ export interface AutoRouterOptions {
  *     { dir: './controllers/client', prefix: '/api/client', defaultRequiresAuth: true }
  *   ]))
  */
-export function autoRouter(
-  options: AutoRouterOptions | AutoRouterOptions[] = {}
+export function autoRouter<TLogLevel extends LogLevel = Exclude<LogLevel, 'debug'>>(
+  options: AutoRouterOptions<TLogLevel> | AutoRouterOptions<TLogLevel>[] = {}
 ): (app: AppLike) => Promise<void> {
-  const optionsArray = Array.isArray(options) ? options : [options]
-
-  const expandedOptionsArray: Array<{
-    dir: string
-    prefix: string
-    defaultRequiresAuth: boolean
-    strict: boolean
-    logging: boolean
-    forcePublic?: string[]
-    forceProtected?: string[]
-    ignore: CompiledIgnorePattern[]
-    onLog?: (level: 'info' | 'warn' | 'error', message: string) => void
-  }> = []
-
-  for (const config of optionsArray) {
-    // Compile once per config — shared by every prefix the config expands into.
-    const ignore = compileIgnorePatterns(config.ignore)
-    const prefixes = Array.isArray(config.prefix)
-      ? config.prefix
-      : [config.prefix !== undefined ? config.prefix : '/api']
-
-    for (const prefix of prefixes) {
-      const normalizedPrefix = prefix.length > 1 && prefix.endsWith('/') ? prefix.slice(0, -1) : prefix
-      expandedOptionsArray.push({
-        dir: config.dir || './controllers',
-        prefix: normalizedPrefix,
-        defaultRequiresAuth: config.defaultRequiresAuth ?? false,
-        strict: config.strict ?? true,
-        logging: config.logging ?? true,
-        forcePublic: config.forcePublic,
-        forceProtected: config.forceProtected,
-        ignore,
-        onLog: config.onLog,
-      })
-    }
-  }
+  const expandedOptionsArray = expandOptions(options as AutoRouterOptions<LogLevel> | AutoRouterOptions<LogLevel>[])
 
   return async function (app: AppLike) {
     if (!app) {
       throw new Error('Auto-router plugin requires an application instance')
     }
 
+    const problems: RouteDiagnostic[] = []
+    const watched: WatchedConfig[] = []
     for (const finalOptions of expandedOptionsArray) {
-      await loadRoutes(app, finalOptions)
+      const table = finalOptions.watch ? createHotRouteTable() : undefined
+      const errors = await loadRoutes(app, finalOptions, table)
+      if (finalOptions.onError === 'throw') problems.push(...errors)
+      if (table) watched.push({ options: finalOptions, table })
+    }
+    if (problems.length > 0) throw createRouteErrors('autoRouter', problems, expandedOptionsArray[0].locale)
+
+    if (watched.length > 0) {
+      const unwatch = watchRoutes(app, watched)
+      const unwatchPrevious = app.$unwatchRoutes
+      app.$unwatchRoutes = () => {
+        unwatchPrevious?.()
+        unwatch()
+      }
+    }
+  }
+}
+
+/** The route table `scanRoutes` discovers, with the warnings and errors found building it. */
+export interface ScanRoutesResult {
+  /** Routes in registration order, as `app.$routes.all` would list them */
+  routes: RouteInfo[]
+  diagnostics: RouteDiagnostic[]
+}
+
+/**
+ * Discover routes without an app — for build scripts, tests and docs
+ * generators. Takes the same options as autoRouter and runs the same
+ * scanning, validation, controller imports, auth resolution and overlap
+ * analysis, but registers nothing and prints nothing: warnings and errors
+ * come back as diagnostics (and still reach `onDiagnostic` or `onLog`, if
+ * set). Duplicates and overlaps are detected across the configs of one
+ * call, as one autoRouter would. With `onError: 'throw'` the errors reject the call instead, as
+ * autoRouter's do.
+ */
+export async function scanRoutes<TLogLevel extends LogLevel = Exclude<LogLevel, 'debug'>>(
+  options: AutoRouterOptions<TLogLevel> | AutoRouterOptions<TLogLevel>[] = {}
+): Promise<ScanRoutesResult> {
+  const routes: RouteInfo[] = []
+  const diagnostics: RouteDiagnostic[] = []
+  const registeredRoutes = new Set<string>()
+  // Patterns of the routes found so far, for the overlap analysis autoRouter runs
+  const registeredPatterns: RegisteredRoute[] = []
+  const problems: RouteDiagnostic[] = []
+  const configs = expandOptions(options as AutoRouterOptions<LogLevel> | AutoRouterOptions<LogLevel>[])
+  for (const config of configs) {
+    const found: RouteDiagnostic[] = []
+    const log = createLogger({ ...config, logging: false })
+    const reportToSink = createReporter(log, config.onDiagnostic, config.logFormat)
+    const report: ReportFn = (diagnostic, lines) => {
+      found.push(diagnostic)
+      reportToSink(diagnostic, lines)
     }
+    const scannedRoutes = (await scanControllerRoutes(config, registeredRoutes, log, report)) ?? []
+    const patterns = scannedRoutes.map(route => registeredPattern(route, config.inlineParamRegex))
+    reportRouteOverlaps(registeredPatterns, patterns, report, config.locale)
+    registeredPatterns.push(...patterns)
+    routes.push(...scannedRoutes.map(route => route.routeInfo))
+    diagnostics.push(...found)
+    if (config.onError === 'throw') problems.push(...found.filter(({ severity }) => severity === 'error'))
   }
-}
\ No newline at end of file
+  if (problems.length > 0) throw createRouteErrors('scanRoutes', problems, configs[0].locale)
+  return { routes, diagnostics }
+}
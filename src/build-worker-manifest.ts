@@ -1,11 +1,28 @@
 #!/usr/bin/env node
 
-import { readdirSync, statSync, mkdirSync, writeFileSync } from 'fs'
+import { readdirSync, readFileSync, statSync, mkdirSync, writeFileSync } from 'fs'
 import { join, resolve, relative, dirname } from 'path'
-import { HTTP_METHODS } from './constants'
-import { validateFileName } from './validation'
-import { parseRouteName, parseDirectorySegment, normalizeParamNames } from './parse-route'
+import { ALL_METHODS_PREFIX, DIRECTORY_META_FILES, DIRECTORY_MIDDLEWARE_FILES, ROUTE_MODULE_FILES, type RouteConvention } from './constants'
+import { classifyModuleExports, resolveFileNameParser, resolveMethods, type FileNameParser, type FileNamePreset, type FileNameValidator } from './validation'
+import {
+  parseRouteName,
+  parseDirectorySegment,
+  normalizeParamNames,
+  validateRestPosition,
+  validateUniqueParamNames,
+  expandOptionalSegments,
+  resolveParamTypes,
+  parseGroupSegment,
+  resolvePathCase,
+  type PathCase,
+} from './parse-route'
+import { analyzeRouteOverlaps, compareRoutes } from './route-order'
+import { checkParamNames, resolveParamNameConsistency, type ParamNameConsistency } from './param-names'
+import { collectErrors, createRouteErrors, resolveErrorPolicy, type ErrorPolicy } from './route-errors'
+import { createReporter, type DiagnosticCode, type ReportFn, type RouteDiagnostic } from './diagnostics'
 import { compileIgnorePatterns, isIgnored, type CompiledIgnorePattern, type IgnorePattern } from './ignore'
+import { getMessages, resolveLocale, type Locale } from './messages'
+import { createLogger, resolveLogFormat, resolveLogLevel, type LogFn, type LogFormat, type LogLevel } from './logger'
 
 interface RouteEntry {
   method: string
@@ -13,6 +30,15 @@ interface RouteEntry {
   filePath: string
   importPath: string
   importId: string
+  /** Named method export of a `route.ts` module (module convention) */
+  exportName?: string
+  /** `_middleware` modules above the route, root first */
+  middlewares: MiddlewareEntry[]
+}
+
+interface MiddlewareEntry {
+  importPath: string
+  importId: string
 }
 
 interface GenerateManifestOptions {
@@ -22,11 +48,33 @@ interface GenerateManifestOptions {
   ext: string
   /** Regex patterns (string source or RegExp) matched against entry basenames to skip. */
   ignore?: IgnorePattern[]
+  /** Custom `[name:type]` param types, merged over the built-ins. */
+  paramTypes?: Record<string, string | RegExp>
+  /** Route file convention (default: 'file'); 'module' reads `route.ts` method exports. */
+  convention?: RouteConvention
+  /** Accepted HTTP method prefixes, replacing the default set; `all` is always accepted. */
+  methods?: string[]
+  /** File-name convention (default: 'method-name'): a preset or a custom parser. */
+  parseFileName?: FileNamePreset | FileNameParser
+  /** Casing of static URL text from file and directory names (default: 'preserve'). */
+  pathCase?: PathCase
+  /** Report params named differently at the same position; `'error'` also leaves those routes out. */
+  paramNameConsistency?: ParamNameConsistency
+  /** `'throw'`: throw an AggregateError listing every skipped file instead of returning a manifest without them (default: 'log'). */
+  onError?: ErrorPolicy
+  /** Language of printed warnings, diagnostic messages and validation errors (default: 'en'). */
+  locale?: Locale
+  /** Lowest level printed (default: 'info'); 'debug' adds entries skipped by `ignore`. */
+  logLevel?: LogLevel
+  /** 'json' prints one JSON object per line instead of emoji-prefixed text (default: 'pretty'). */
+  logFormat?: LogFormat
+  /** Structured sink for warnings and errors; when set, nothing is printed for them. */
+  onDiagnostic?: (diagnostic: RouteDiagnostic) => void
 }
 
-function sanitizeIdentifier(path: string): string {
+function sanitizeIdentifier(path: string, kind: 'handler' | 'middleware' = 'handler'): string {
   return (
-    'handler_' +
+    `${kind}_` +
     path
       .replace(/\.(ts|js)$/, '')
       .replace(/[^a-zA-Z0-9]+/g, '_')
@@ -34,17 +82,129 @@ function sanitizeIdentifier(path: string): string {
   )
 }
 
+/** Single-quote a string for the generated source, escaping `\` and `'` (typed-param regexes). */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/** Scan-wide settings shared by every recursive `scanDirectory` call. */
+interface ScanContext {
+  controllersRoot: string
+  ext: string
+  ignore: CompiledIgnorePattern[]
+  paramTypes: Readonly<Record<string, string>>
+  convention: RouteConvention
+  methods: readonly string[]
+  parseFileName: FileNameValidator
+  pathCase?: (text: string) => string
+  locale: Locale
+  log: LogFn
+  /** Reports a file or directory left out of the manifest — what `onError: 'throw'` fails on. */
+  skip: ReportFn
+}
+
+/**
+ * The names a `const` / `let` / `var` list declares, read from `start`, just
+ * past the keyword: `GET = a, POST = b` declares GET and POST. Commas inside
+ * brackets, strings, comments or a type annotation's `<...>` do not start a
+ * declaration; the list ends at a `;` or a line break outside of them.
+ */
+function declaredNames(source: string, start: number): string[] {
+  const names: string[] = []
+  let depth = 0
+  let inType = false
+  let i = start
+  while (i < source.length) {
+    const name = /^\s*([A-Za-z_$][\w$]*)/.exec(source.slice(i))
+    // A destructuring pattern is not read
+    if (!name) return names
+    names.push(name[1])
+    i += name[0].length
+    for (; i < source.length; i++) {
+      const char = source[i]
+      if (char === '"' || char === "'" || char === '`') {
+        for (i++; i < source.length && source[i] !== char; i++) {
+          if (source[i] === '\\') i++
+        }
+      } else if (source.startsWith('//', i)) {
+        i = source.indexOf('\n', i) - 1
+        if (i < 0) return names
+      } else if (source.startsWith('/*', i)) {
+        i = source.indexOf('*/', i) + 1
+        if (i <= 0) return names
+      } else if ('([{'.includes(char) || (inType && char === '<')) {
+        depth++
+      } else if (')]}'.includes(char) || (inType && char === '>' && source[i - 1] !== '=')) {
+        if (--depth < 0) return names
+      } else if (depth === 0) {
+        if (char === ':') inType = true
+        else if (char === '=' && source[i + 1] !== '>') inType = false
+        else if (char === ';' || char === '\n') return names
+        else if (char === ',') break
+      }
+    }
+    i++
+    inType = false
+  }
+  return names
+}
+
+/**
+ * Find the names a `route.ts` module exports at runtime, by reading its
+ * source — the manifest is generated without importing controllers. Type-only
+ * exports (`export type`, `interface`, `const enum`) are left out.
+ */
+function findExportNames(source: string): string[] {
+  const names = new Set<string>()
+  if (/export\s+default\b/.test(source)) names.add('default')
+  for (const match of source.matchAll(/export\s+(?:(?:async\s+)?function\s*\*?|class|enum)\s*([A-Za-z_$][\w$]*)/g)) {
+    names.add(match[1])
+  }
+  for (const match of source.matchAll(/export\s+(?:const|let|var)\s+(?!enum\s)/g)) {
+    for (const name of declaredNames(source, match.index! + match[0].length)) {
+      names.add(name)
+    }
+  }
+  for (const match of source.matchAll(/export\s*\{([^}]*)\}/g)) {
+    for (const specifier of match[1].split(',')) {
+      if (/^\s*type\s/.test(specifier)) continue
+      const exported = specifier.trim().split(/\s+as\s+/).pop()
+      if (exported) names.add(exported)
+    }
+  }
+  return [...names]
+}
+
 function scanDirectory(
   dirPath: string,
   basePath: string,
-  controllersRoot: string,
-  ext: string,
-  ignore: CompiledIgnorePattern[],
+  context: ScanContext,
+  middlewares: MiddlewareEntry[],
   routes: RouteEntry[]
 ): void {
+  const { controllersRoot, ext, ignore, paramTypes, convention, methods, parseFileName, pathCase, locale, log, skip } = context
   const files = readdirSync(dirPath)
+  // Left out without a console line, as the manifest always has; still
+  // reported to onDiagnostic and failed on by onError: 'throw'
+  const skipQuietly = (code: DiagnosticCode, filePath: string, message: string) =>
+    skip({ code, severity: 'warn', file: relative(controllersRoot, filePath), message }, [])
+
+  const isMiddlewareFile = (file: string) =>
+    (DIRECTORY_MIDDLEWARE_FILES as readonly string[]).includes(file) && file.endsWith(`.${ext}`)
+  const middlewareFile = files.find(file => isMiddlewareFile(file) && !isIgnored(file, false, ignore))
+  if (middlewareFile) {
+    const relativeFromRoot = relative(controllersRoot, join(dirPath, middlewareFile))
+    middlewares = [...middlewares, {
+      importPath: relativeFromRoot.replace(/\.(ts|js)$/, ''),
+      importId: sanitizeIdentifier(relativeFromRoot, 'middleware'),
+    }]
+  }
 
   for (const file of files) {
+    if (isMiddlewareFile(file)) continue
+    // `_meta` carries directory metadata for autoRouter, not a route
+    if ((DIRECTORY_META_FILES as readonly string[]).includes(file)) continue
+
     const filePath = join(dirPath, file)
     let fileStat: ReturnType<typeof statSync>
     try {
@@ -56,33 +216,70 @@ function scanDirectory(
     // Skip ignored entries before validation — a matched folder is skipped
     // whole (no recursion), a matched file silently. The entry's kind decides
     // which patterns apply (file / dir / both).
-    if (isIgnored(file, fileStat.isDirectory(), ignore)) continue
+    if (isIgnored(file, fileStat.isDirectory(), ignore)) {
+      log('debug', `⏭️  ${getMessages(locale).ignored}: ${relative(controllersRoot, filePath)}`, { file: relative(controllersRoot, filePath) })
+      continue
+    }
 
     if (fileStat.isDirectory()) {
-      let dirSegment: string
+      // A `(name)` route group adds no path segment
+      let childBasePath: string
       try {
-        dirSegment = parseDirectorySegment(file)
-      } catch {
+        childBasePath = parseGroupSegment(file, locale) !== undefined
+          ? basePath
+          : `${basePath}/${parseDirectorySegment(file, { paramTypes, pathCase, locale })}`
+      } catch (err: unknown) {
+        skipQuietly('AR_INVALID_DIRECTORY_NAME', filePath, err instanceof Error ? err.message : String(err))
         continue
       }
       try {
-        scanDirectory(filePath, basePath ? `${basePath}/${dirSegment}` : `/${dirSegment}`, controllersRoot, ext, ignore, routes)
-      } catch {
+        scanDirectory(filePath, childBasePath, context, middlewares, routes)
+      } catch (err: unknown) {
         // Skip unreadable subdirectories
+        skipQuietly('AR_SCAN_FAILED', filePath, err instanceof Error ? err.message : String(err))
       }
     } else if ((file.endsWith(`.${ext}`) && !file.endsWith('.d.ts')) || (ext === 'js' && file.endsWith('.js'))) {
-      const validation = validateFileName(file)
-      if (!validation.valid) continue
-
-      const method = validation.method!
-      const nameWithoutExt = file.replace(/\.(ts|js)$/, '')
-
+      // Module convention: `route.ts` serves its directory's URL, one entry per
+      // exported method; every other file is a colocated helper
+      let routeMethods: string[]
       let routeName = ''
-      if (nameWithoutExt !== method) {
-        routeName = nameWithoutExt.substring(method.length + 1)
+      if (convention === 'module') {
+        if (!(ROUTE_MODULE_FILES as readonly string[]).includes(file)) continue
+        // The rule loadRoutes applies to the imported module
+        const moduleExports = classifyModuleExports(findExportNames(readFileSync(filePath, 'utf-8')), methods)
+        const moduleFile = relative(controllersRoot, filePath)
+        const msg = getMessages(locale)
+        if (moduleExports.hasDefault) {
+          skip({ code: 'AR_MODULE_DEFAULT_EXPORT', severity: 'warn', file: moduleFile, message: msg.moduleDefaultExport }, [`⚠️  ${msg.skipFile}: ${moduleFile} — ${msg.moduleDefaultExport}`])
+          continue
+        }
+        if (moduleExports.unknown.length > 0) {
+          const message = `${msg.unknownModuleExports([...methods, ALL_METHODS_PREFIX].map(method => method.toUpperCase()).join(', '))} — ${msg.detectedOtherExports(moduleExports.unknown.join(', '))}`
+          skip({ code: 'AR_UNKNOWN_MODULE_EXPORTS', severity: 'warn', file: moduleFile, message }, [`⚠️  ${msg.skipFile}: ${moduleFile} — ${message}`])
+          continue
+        }
+        if (moduleExports.methods.length === 0) {
+          skip({ code: 'AR_EMPTY_ROUTE_MODULE', severity: 'warn', file: moduleFile, message: msg.emptyRouteModule }, [`⚠️  ${msg.emptyRouteModule}: ${moduleFile}`])
+          continue
+        }
+        routeMethods = moduleExports.methods
+      } else {
+        const validation = parseFileName(file, { paramTypes, methods, locale })
+        if (!validation.valid) {
+          skipQuietly('AR_INVALID_FILE_NAME', filePath, validation.error!)
+          continue
+        }
+
+        routeMethods = validation.methods!.map(method => method.toUpperCase())
+        routeName = validation.routeName!
       }
 
-      routeName = parseRouteName(routeName)
+      try {
+        routeName = parseRouteName(routeName, { paramTypes, pathCase, locale })
+      } catch (err: unknown) {
+        skipQuietly('AR_PATH_CASE_FAILED', filePath, err instanceof Error ? err.message : String(err))
+        continue
+      }
 
       let fullPath: string
       if (routeName) {
@@ -93,16 +290,36 @@ function scanDirectory(
 
       fullPath = fullPath.replace(/\/+/g, '/')
 
+      try {
+        validateRestPosition(fullPath, locale)
+      } catch (err: unknown) {
+        skipQuietly('AR_REST_NOT_LAST', filePath, err instanceof Error ? err.message : String(err))
+        continue
+      }
+
+      try {
+        validateUniqueParamNames(fullPath, locale)
+      } catch (err: unknown) {
+        const file = relative(controllersRoot, filePath)
+        const message = err instanceof Error ? err.message : String(err)
+        skip({ code: 'AR_REPEATED_PARAM', severity: 'warn', file, message }, [`⚠️  ${getMessages(locale).skipFile}: ${file} — ${message}`])
+        continue
+      }
+
       const relativeFromRoot = relative(controllersRoot, filePath)
       const importId = sanitizeIdentifier(relativeFromRoot)
 
-      routes.push({
-        method: method.toUpperCase(),
-        pattern: fullPath,
-        filePath,
-        importPath: relativeFromRoot.replace(/\.(ts|js)$/, ''),
-        importId,
-      })
+      for (const method of routeMethods) {
+        routes.push({
+          method,
+          pattern: fullPath,
+          filePath,
+          importPath: relativeFromRoot.replace(/\.(ts|js)$/, ''),
+          importId,
+          exportName: convention === 'module' ? method : undefined,
+          middlewares,
+        })
+      }
     }
   }
 }
@@ -110,14 +327,31 @@ function scanDirectory(
 export function generateManifest(options: GenerateManifestOptions): string {
   const { controllersDir, outputFile, prefix, ext } = options
 
-  const ignore = compileIgnorePatterns(options.ignore)
+  const locale = resolveLocale(options.locale)
+  const msg = getMessages(locale)
+  const ignore = compileIgnorePatterns(options.ignore, locale)
+  const paramTypes = resolveParamTypes(options.paramTypes, locale)
+  const convention = options.convention ?? 'file'
+  const methods = resolveMethods(options.methods, locale)
+  const parseFileName = resolveFileNameParser(options.parseFileName, locale)
+  const pathCase = resolvePathCase(options.pathCase, locale)
+  const paramNameConsistency = resolveParamNameConsistency(options.paramNameConsistency, locale)
+  const onError = resolveErrorPolicy(options.onError, locale)
   const routes: RouteEntry[] = []
   const fullDir = resolve(controllersDir)
+  const logFormat = resolveLogFormat(options.logFormat, locale)
+  const log = createLogger({ logLevel: resolveLogLevel(options.logLevel, locale), logFormat, logging: true })
+  const problems: RouteDiagnostic[] = []
+  const report = collectErrors(createReporter(log, options.onDiagnostic, logFormat), problems)
+  const skip: ReportFn = (diagnostic, lines) => {
+    problems.push(diagnostic)
+    report(diagnostic, lines)
+  }
 
   try {
-    scanDirectory(fullDir, '', fullDir, ext, ignore, routes)
+    scanDirectory(fullDir, '', { controllersRoot: fullDir, ext, ignore, paramTypes, convention, methods, parseFileName, pathCase, locale, log, skip }, [], routes)
   } catch (err: unknown) {
-    throw new Error(`Failed to scan directory: ${err instanceof Error ? err.message : String(err)}`)
+    throw new Error(`${msg.failedToScan}: ${err instanceof Error ? err.message : String(err)}`)
   }
 
   const normalizedPrefix = prefix.length > 1 && prefix.endsWith('/') ? prefix.slice(0, -1) : prefix
@@ -125,48 +359,95 @@ export function generateManifest(options: GenerateManifestOptions): string {
     route.pattern = normalizedPrefix ? `${normalizedPrefix}${route.pattern}`.replace(/\/+/g, '/') : route.pattern
   }
 
-  // Sort routes: specific paths before wildcards, then alphabetically
-  // This prevents '/api/:id' from hijacking '/api/users'
-  routes.sort((a, b) => {
-    const aHasParam = a.pattern.includes(':')
-    const bHasParam = b.pattern.includes(':')
+  // Sort routes by segment-wise specificity (static > mixed `:name.json` >
+  // typed param > param > rest at the first differing segment), then
+  // alphabetically — the Worker router takes the first match, so '/api/:id'
+  // must not hijack '/api/users'.
+  // A catch-all ALL route comes after the method-specific routes on its pattern
+  routes.sort((a, b) => compareRoutes({ method: a.method, path: a.pattern }, { method: b.method, path: b.pattern }))
 
-    if (aHasParam && !bHasParam) return 1
-    if (!aHasParam && bHasParam) return -1
-
-    return a.pattern.localeCompare(b.pattern) || a.method.localeCompare(b.method)
-  })
-
-  // Detect duplicates — param-name casing is folded for the key
+  // Detect duplicates — param-name casing is folded for the key, and an
+  // optional `:param?` route claims both of its expanded forms
   const seen = new Set<string>()
   const uniqueRoutes: RouteEntry[] = []
   for (const route of routes) {
-    const key = `${route.method} ${normalizeParamNames(route.pattern)}`
-    if (seen.has(key)) {
-      console.warn(`⚠️  Duplicate route skipped: ${key}`)
+    const keys = expandOptionalSegments(route.pattern).map(pattern => `${route.method} ${normalizeParamNames(pattern)}`)
+    const duplicateKey = keys.find(key => seen.has(key))
+    if (duplicateKey) {
+      skip(
+        { code: 'AR_DUPLICATE_ROUTE', severity: 'warn', file: relative(fullDir, route.filePath), route: duplicateKey, message: msg.duplicateRoute(duplicateKey) },
+        [`⚠️  ${msg.duplicateRouteSkippedManifest(duplicateKey)}`]
+      )
       continue
     }
-    seen.add(key)
+    for (const key of keys) {
+      seen.add(key)
+    }
     uniqueRoutes.push(route)
   }
 
+  if (paramNameConsistency) {
+    const candidates = uniqueRoutes.map(route => ({ method: route.method, path: route.pattern, file: relative(fullDir, route.filePath), entry: route }))
+    for (const { entry } of checkParamNames(candidates, paramNameConsistency, report, locale)) {
+      uniqueRoutes.splice(uniqueRoutes.indexOf(entry), 1)
+    }
+  }
+
+  const listed = uniqueRoutes.map(route => ({ method: route.method, path: route.pattern, file: relative(fullDir, route.filePath) }))
+  for (const { kind, route, shadowedBy } of analyzeRouteOverlaps([], listed)) {
+    const first = `${shadowedBy.method} ${shadowedBy.path}`
+    const second = `${route.method} ${route.path}`
+    const [code, message] = kind === 'ambiguous'
+      ? ['AR_AMBIGUOUS_ROUTES', `${msg.ambiguousRoutes(first, second)} — ${msg.listedFirst(shadowedBy.file)}`] as const
+      : kind === 'shadowed'
+        ? ['AR_SHADOWED_ROUTE', `${msg.shadowedRoute(first, second)} — ${msg.listedFirstShadowing(shadowedBy.file, route.file)}`] as const
+        : ['AR_OVERLAPPING_ROUTES', `${msg.overlappingRoutes(first, second)} — ${msg.listedFirst(shadowedBy.file)}`] as const
+    report({ code, severity: 'warn', file: route.file, route: second, message }, [`⚠️  ${message}`])
+  }
+
+  if (onError === 'throw' && problems.length > 0) throw createRouteErrors('generateManifest', problems, locale)
+
   const outputDir = dirname(resolve(outputFile))
-  const imports: string[] = []
-  for (const route of uniqueRoutes) {
-    const absoluteController = resolve(controllersDir, route.importPath)
+  const importLine = ({ importId, importPath }: MiddlewareEntry, namespace = false) => {
+    const absoluteController = resolve(controllersDir, importPath)
     const relativeImport = relative(outputDir, absoluteController).replace(/\\/g, '/')
     // Prefix with './' only when the path is not already relative (../…). This
     // keeps imports valid when the manifest lives in a sibling/parent directory.
     const importTarget = relativeImport.startsWith('.') ? relativeImport : `./${relativeImport}`
-    const importLine = `import ${route.importId} from '${importTarget}'`
-    imports.push(importLine)
+    return `import ${namespace ? `* as ${importId}` : importId} from '${importTarget}'`
   }
+  // Each `_middleware` module is imported once, ahead of the handlers
+  const middlewareImports = new Map<string, string>()
+  for (const route of uniqueRoutes) {
+    for (const middleware of route.middlewares) {
+      middlewareImports.set(middleware.importId, importLine(middleware))
+    }
+  }
+  // A `route.ts` module is imported once as a namespace, shared by its methods
+  const handlerImports = new Map<string, string>()
+  for (const route of uniqueRoutes) {
+    handlerImports.set(route.importId, importLine(route, route.exportName !== undefined))
+  }
+  const imports = [...middlewareImports.values(), ...handlerImports.values()]
 
   const routeEntries = uniqueRoutes
-    .map(r => `  { pattern: '${r.pattern}', method: '${r.method}', handler: ${r.importId} },`)
+    .map(r => {
+      const directoryMiddlewares = r.middlewares.length > 0
+        ? `, directoryMiddlewares: [${r.middlewares.map(m => m.importId).join(', ')}]`
+        : ''
+      return `  { pattern: ${quote(r.pattern)}, method: '${r.method}', handler: ${r.importId}${r.exportName ? `.${r.exportName}` : ''}${directoryMiddlewares} },`
+    })
     .join('\n')
 
   const extFlag = ext !== 'ts' ? ` --ext ${ext}` : ''
+  const conventionFlag = convention !== 'file' ? ` --convention ${convention}` : ''
+  const methodsFlag = options.methods ? ` --methods ${methods.join(',')}` : ''
+  // Custom parseFileName and pathCase functions cannot be expressed as flags
+  const parseFileNameFlag = typeof options.parseFileName === 'string' && options.parseFileName !== 'method-name' ? ` --parse-file-name ${options.parseFileName}` : ''
+  const paramNameFlag = options.paramNameConsistency ? ` --param-name-consistency ${options.paramNameConsistency}` : ''
+  const onErrorFlag = onError !== 'log' ? ` --on-error ${onError}` : ''
+  const localeFlag = locale !== 'en' ? ` --locale ${locale}` : ''
+  const pathCaseFlag = typeof options.pathCase === 'string' && options.pathCase !== 'preserve' ? ` --path-case ${options.pathCase}` : ''
   // Only "both"-targeted string patterns round-trip through `--ignore` — a bare
   // string is shorthand for both, while RegExp or file/dir-scoped entries carry
   // info the flag cannot express, so they are omitted from the regenerate hint.
@@ -178,7 +459,10 @@ export function generateManifest(options: GenerateManifestOptions): string {
       return ` --ignore '${entry.pattern}'`
     })
     .join('')
-  const regenerateCmd = `npx auto-router-build-manifest ${controllersDir} ${outputFile} --prefix ${prefix}${extFlag}${ignoreFlags}`
+  const paramTypeFlags = Object.entries(options.paramTypes ?? {})
+    .map(([name, pattern]) => ` --param-type '${name}=${pattern instanceof RegExp ? pattern.source : pattern}'`)
+    .join('')
+  const regenerateCmd = `npx auto-router-build-manifest ${controllersDir} ${outputFile} --prefix ${prefix}${extFlag}${conventionFlag}${methodsFlag}${parseFileNameFlag}${pathCaseFlag}${paramNameFlag}${onErrorFlag}${localeFlag}${ignoreFlags}${paramTypeFlags}`
 
   return `// AUTO-GENERATED by @chaeco/auto-router build-worker-manifest
 // Do not edit manually.
@@ -193,17 +477,47 @@ ${routeEntries}
 `
 }
 
+/** The `--locale` of `argv`, read ahead so errors about earlier arguments use it too. */
+function argvLocale(argv: string[]): Locale {
+  const index = argv.lastIndexOf('--locale')
+  return index !== -1 && argv[index + 1] === 'zh-CN' ? 'zh-CN' : 'en'
+}
+
 function parseArgs(argv: string[]): {
   controllersDir: string
   outputFile: string
   prefix: string
   ext: string
   ignore: string[]
+  paramTypes: Record<string, string>
+  convention: RouteConvention
+  methods?: string[]
+  parseFileName?: FileNamePreset
+  pathCase?: PathCase
+  paramNameConsistency?: ParamNameConsistency
+  onError: ErrorPolicy
+  locale: Locale
+  logLevel: LogLevel
+  logFormat: LogFormat
+  /** `--diagnostics json` won: warnings print as diagnostics, with `severity` */
+  diagnostics: boolean
 } | null {
+  const msg = getMessages(argvLocale(argv))
   const positional: string[] = []
   let prefix = '/api'
   let ext = 'ts'
+  let convention: RouteConvention = 'file'
+  let methods: string[] | undefined
+  let parseFileName: FileNamePreset | undefined
+  let pathCase: PathCase | undefined
+  let paramNameConsistency: ParamNameConsistency | undefined
+  let onError: ErrorPolicy = 'log'
+  let locale: Locale = 'en'
+  let logLevel: LogLevel = 'info'
+  let logFormat: LogFormat = 'pretty'
+  let diagnostics = false
   const ignore: string[] = []
+  const paramTypes: Record<string, string> = {}
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i]
@@ -211,20 +525,93 @@ function parseArgs(argv: string[]): {
       prefix = argv[++i] || '/api'
     } else if (arg === '--ext') {
       ext = argv[++i] || 'ts'
+    } else if (arg === '--convention') {
+      const value = argv[++i]
+      if (value !== 'file' && value !== 'module') {
+        console.error(`${msg.error}: ${msg.cliChoices('--convention', ['file', 'module'])}`)
+        return null
+      }
+      convention = value
+    } else if (arg === '--methods') {
+      const list = argv[++i]
+      if (!list) {
+        console.error(`${msg.error}: ${msg.cliMethods}`)
+        return null
+      }
+      methods = list.split(',').map(method => method.trim()).filter(Boolean)
+    } else if (arg === '--parse-file-name') {
+      const value = argv[++i]
+      if (value !== 'method-name' && value !== 'name.method' && value !== 'next') {
+        console.error(`${msg.error}: ${msg.cliChoices('--parse-file-name', ['method-name', 'name.method', 'next'])}`)
+        return null
+      }
+      parseFileName = value
+    } else if (arg === '--path-case') {
+      const value = argv[++i]
+      if (value !== 'preserve' && value !== 'kebab' && value !== 'snake') {
+        console.error(`${msg.error}: ${msg.cliChoices('--path-case', ['preserve', 'kebab', 'snake'])}`)
+        return null
+      }
+      pathCase = value
+    } else if (arg === '--param-name-consistency') {
+      const value = argv[++i]
+      if (value !== 'warn' && value !== 'error') {
+        console.error(`${msg.error}: ${msg.cliChoices('--param-name-consistency', ['warn', 'error'])}`)
+        return null
+      }
+      paramNameConsistency = value
+    } else if (arg === '--on-error') {
+      const value = argv[++i]
+      if (value !== 'log' && value !== 'throw') {
+        console.error(`${msg.error}: ${msg.cliChoices('--on-error', ['log', 'throw'])}`)
+        return null
+      }
+      onError = value
+    } else if (arg === '--locale') {
+      const value = argv[++i]
+      if (value !== 'en' && value !== 'zh-CN') {
+        console.error(`${msg.error}: ${msg.cliChoices('--locale', ['en', 'zh-CN'])}`)
+        return null
+      }
+      locale = value
+    } else if (arg === '--log-level') {
+      const value = argv[++i]
+      if (value !== 'silent' && value !== 'error' && value !== 'warn' && value !== 'info' && value !== 'debug') {
+        console.error(`${msg.error}: ${msg.cliChoices('--log-level', ['silent', 'error', 'warn', 'info', 'debug'])}`)
+        return null
+      }
+      logLevel = value
+    } else if (arg === '--log-format' || arg === '--diagnostics') {
+      // `--diagnostics` is an alias of `--log-format`; the last one given wins
+      const value = argv[++i]
+      if (value !== 'pretty' && value !== 'json') {
+        console.error(`${msg.error}: ${msg.cliChoices(arg, ['pretty', 'json'])}`)
+        return null
+      }
+      logFormat = value
+      diagnostics = arg === '--diagnostics' && value === 'json'
     } else if (arg === '--ignore') {
       const pattern = argv[++i]
       if (pattern === undefined) {
-        console.error('Error: --ignore requires a regex pattern')
+        console.error(`${msg.error}: ${msg.cliIgnore}`)
         return null
       }
       ignore.push(pattern)
+    } else if (arg === '--param-type') {
+      const definition = argv[++i]
+      const separator = definition?.indexOf('=') ?? -1
+      if (separator <= 0) {
+        console.error(`${msg.error}: ${msg.cliParamType}`)
+        return null
+      }
+      paramTypes[definition.slice(0, separator)] = definition.slice(separator + 1)
     } else if (!arg.startsWith('--')) {
       positional.push(arg)
     }
   }
 
   if (positional.length < 2) {
-    console.error('Usage: auto-router-build-manifest <controllersDir> <outputFile> [--prefix /api] [--ext ts] [--ignore <regex>]...')
+    console.error(`${msg.usage}: auto-router-build-manifest <controllersDir> <outputFile> [--prefix /api] [--ext ts] [--convention file|module] [--methods get,post,...] [--parse-file-name method-name|name.method|next] [--path-case preserve|kebab|snake] [--param-name-consistency warn|error] [--on-error log|throw] [--locale en|zh-CN] [--log-level silent|error|warn|info|debug] [--log-format pretty|json] [--ignore <regex>]... [--param-type <name=regex>]...`)
     return null
   }
 
@@ -234,6 +621,17 @@ function parseArgs(argv: string[]): {
     prefix,
     ext,
     ignore,
+    paramTypes,
+    convention,
+    methods,
+    parseFileName,
+    pathCase,
+    paramNameConsistency,
+    onError,
+    locale,
+    logLevel,
+    logFormat,
+    diagnostics,
   }
 }
 
@@ -242,14 +640,19 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const args = parseArgs(process.argv.slice(2))
   if (!args) process.exit(1)
 
+  const log = createLogger({ logLevel: args.logLevel, logFormat: args.logFormat, logging: true })
   try {
-    const manifest = generateManifest(args)
+    // `--diagnostics json` keeps its own line shape, `severity` rather than `level`, one diagnostic per line on stderr
+    const manifest = generateManifest({
+      ...args,
+      onDiagnostic: args.diagnostics ? diagnostic => console.error(JSON.stringify(diagnostic)) : undefined,
+    })
     const outputPath = resolve(args.outputFile)
     mkdirSync(dirname(outputPath), { recursive: true })
     writeFileSync(outputPath, manifest, 'utf-8')
-    console.log(`✅ Generated: ${outputPath}`)
+    log('info', `✅ ${getMessages(args.locale).generated(outputPath)}`, { file: outputPath })
   } catch (err: unknown) {
-    console.error(`❌ Error: ${err instanceof Error ? err.message : String(err)}`)
+    log('error', `❌ ${getMessages(args.locale).error}: ${err instanceof Error ? err.message : String(err)}`)
     process.exit(1)
   }
 }
\ No newline at end of file
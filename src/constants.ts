@@ -1,2 +1,53 @@
 /** Shared HTTP method constants. */
-export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'] as const
\ No newline at end of file
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'] as const
+
+/** Extra methods for WebDAV and search APIs, opt-in via the `methods` option. */
+export const EXTENDED_HTTP_METHODS = ['search', 'query', 'propfind', 'report'] as const
+
+/**
+ * File-name prefix for a catch-any-method route (`all-health.ts`). It is always
+ * accepted and registered through the framework's `app.all()`.
+ */
+export const ALL_METHODS_PREFIX = 'all'
+
+/**
+ * Built-in parameter types for `[name:type]` tokens, as regex sources. Each
+ * source must match a single path segment and contain no capturing groups.
+ */
+export const PARAM_TYPES: Readonly<Record<string, string>> = {
+  int: '\\d+',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  slug: '[a-z0-9]+(?:-[a-z0-9]+)*',
+  alpha: '[A-Za-z]+',
+}
+
+/**
+ * File names of the per-directory meta module. Its default export is a
+ * `RouteMeta` object merged into every route in that directory and below.
+ */
+export const DIRECTORY_META_FILES = ['_meta.ts', '_meta.js'] as const
+
+/**
+ * File names of the per-directory middleware module. Its default export (a
+ * middleware or an array of them) runs before every route in that subtree.
+ */
+export const DIRECTORY_MIDDLEWARE_FILES = ['_middleware.ts', '_middleware.js'] as const
+
+/**
+ * Route file conventions: `'file'` maps one method-named file (`get-users.ts`)
+ * to one route; `'module'` maps a `route.ts` file to its directory's URL, with
+ * one named export per HTTP method (`export const GET`).
+ */
+export type RouteConvention = 'file' | 'module'
+
+/** File names of route modules under `convention: 'module'`. */
+export const ROUTE_MODULE_FILES = ['route.ts', 'route.js'] as const
+
+/**
+ * How a request path with a trailing slash (`/api/users/`) is handled:
+ * `'strict'` treats it as a different path, `'ignore'` serves the route as if
+ * the slash were absent, `'redirect'` answers 308 with the canonical path.
+ */
+export const TRAILING_SLASH_POLICIES = ['strict', 'ignore', 'redirect'] as const
+
+export type TrailingSlashPolicy = typeof TRAILING_SLASH_POLICIES[number]
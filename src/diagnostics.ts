@@ -0,0 +1,92 @@
+/**
+ * Structured diagnostics: every warning and error the routers and the
+ * manifest generator report carries a stable code, so log pipelines can
+ * match on `AR_DUPLICATE_ROUTE` instead of parsing emoji-prefixed text.
+ */
+import type { LogFn, LogFormat } from './logger'
+
+/** Stable identifiers of every warning and error; the message text may change, these do not. */
+export type DiagnosticCode =
+  // Scanning
+  | 'AR_SCAN_FAILED'
+  | 'AR_STAT_FAILED'
+  | 'AR_INVALID_DIRECTORY_NAME'
+  | 'AR_METHOD_DIRECTORY_NAME'
+  | 'AR_INVALID_FILE_NAME'
+  | 'AR_PATH_CASE_FAILED'
+  | 'AR_PATH_CASE_MISMATCH'
+  | 'AR_REST_NOT_LAST'
+  | 'AR_REPEATED_PARAM'
+  | 'AR_INCONSISTENT_PARAM_NAME'
+  | 'AR_INVALID_ROUTE_PATH'
+  // Imports and exports
+  | 'AR_IMPORT_FAILED'
+  | 'AR_INVALID_EXPORT'
+  | 'AR_STRICT_EXPORT'
+  | 'AR_LOOSE_EXPORT'
+  | 'AR_NAMED_EXPORTS'
+  | 'AR_MODULE_DEFAULT_EXPORT'
+  | 'AR_UNKNOWN_MODULE_EXPORTS'
+  | 'AR_EMPTY_ROUTE_MODULE'
+  | 'AR_INVALID_DIRECTORY_META'
+  | 'AR_INVALID_DIRECTORY_MIDDLEWARE'
+  | 'AR_INVALID_HANDLER'
+  | 'AR_LAZY_ROUTE_UNLISTED'
+  // Registration
+  | 'AR_DUPLICATE_ROUTE'
+  | 'AR_DUPLICATE_ROUTE_MODULE'
+  | 'AR_UNSUPPORTED_METHOD'
+  | 'AR_UNSUPPORTED_REST_PARAM'
+  | 'AR_REGISTER_FAILED'
+  | 'AR_NO_ROUTES'
+  | 'AR_AMBIGUOUS_ROUTES'
+  | 'AR_SHADOWED_ROUTE'
+  | 'AR_OVERLAPPING_ROUTES'
+  | 'AR_WATCH_FAILED'
+  | 'AR_WATCH_ROUTE_ORDER'
+  // forcePublic / forceProtected
+  | 'AR_FORCE_PATTERN_CONFLICT'
+  | 'AR_FORCE_PATTERN_OVERRIDDEN'
+  | 'AR_FORCE_PATTERN_UNMATCHED'
+
+/** A warning or error found while scanning or registering routes. */
+export interface RouteDiagnostic {
+  code: DiagnosticCode
+  severity: 'warn' | 'error'
+  /** Source file of the route, directory module or directory concerned */
+  file?: string
+  /** The route concerned, as `METHOD /path` */
+  route?: string
+  /** The forcePublic/forceProtected pattern concerned */
+  pattern?: string
+  /** One line, without emoji or indentation */
+  message: string
+}
+
+/**
+ * Report one diagnostic. `lines` is its formatted form for `onLog` and the
+ * console — an emoji headline and indented details — used when no
+ * `onDiagnostic` callback is set.
+ */
+export type ReportFn = (diagnostic: RouteDiagnostic, lines: readonly string[]) => void
+
+/**
+ * Send diagnostics to `onDiagnostic` when set, otherwise their lines to `log`
+ * at their severity — or, for `logFormat: 'json'`, the diagnostic as one line.
+ */
+export function createReporter(log: LogFn, onDiagnostic?: (diagnostic: RouteDiagnostic) => void, logFormat: LogFormat = 'pretty'): ReportFn {
+  return (diagnostic, lines) => {
+    if (onDiagnostic) {
+      onDiagnostic(diagnostic)
+      return
+    }
+    if (logFormat === 'json') {
+      const { code, file, route, pattern, message } = diagnostic
+      log(diagnostic.severity, message, { code, file, route, pattern })
+      return
+    }
+    for (const line of lines) {
+      log(diagnostic.severity, line)
+    }
+  }
+}
@@ -53,6 +53,29 @@ export interface RouteInfo {
   requiresAuth?: boolean
   /** Route metadata provided via createHandler (summary, tags, description, etc.) */
   meta?: RouteMeta
+  /** Declared param types from `[name:type]` tokens, e.g. `{ id: 'int' }` */
+  paramTypes?: Record<string, string>
+  /** Route groups from `(name)` directories, outermost first */
+  groups?: string[]
+}
+
+/** A registered route as the overlap analysis sees it. */
+export interface RegisteredRoute {
+  method: string
+  /** Path as registered, typed-param constraints included */
+  path: string
+  /** Source file of a file-based route; absent for static routes */
+  file?: string
+}
+
+/**
+ * A route that loses some or all of its URLs to one registered before it:
+ * `ambiguous` (same URLs), `shadowed` (unreachable) or `overlap` (some URLs).
+ */
+export interface RouteOverlap {
+  kind: 'ambiguous' | 'shadowed' | 'overlap'
+  route: RegisteredRoute
+  shadowedBy: RegisteredRoute
 }
 
 /** Application routes registry interface */
@@ -60,12 +83,18 @@ export interface AppRoutesRegistry {
   publicRoutes: Array<{ method: string; path: string }>
   protectedRoutes: Array<{ method: string; path: string }>
   all: RouteInfo[]
+  /** Shadowed and overlapping routes found at registration, if any */
+  overlaps?: RouteOverlap[]
 }
 
 /** Minimal application interface that auto-router attaches to. */
 export interface AppLike {
   $routes?: AppRoutesRegistry
   $registeredRoutes?: Set<string>
+  /** Every route registered so far, in registration order */
+  $registeredPatterns?: RegisteredRoute[]
+  /** Close the file watchers of autoRouter's `watch: true` */
+  $unwatchRoutes?: () => void
   [method: string]: unknown
 }
 
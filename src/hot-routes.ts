@@ -0,0 +1,49 @@
+/**
+ * The route table behind `watch: true`. Frameworks cannot unregister a
+ * route, so watch mode registers each one once as a dispatcher that runs the
+ * route's current handler chain: a reload swaps chains in place, and a
+ * deleted route keeps an empty chain that falls through to the framework's
+ * next route or its 404.
+ */
+import type { ScannedRoute } from './load-routes'
+
+/** What one autoRouter config has registered, kept between reloads. */
+export interface HotRouteTable {
+  /** Current chain of every dispatcher registered, by `method registeredPath`; empty once deleted */
+  chains: Map<string, Function[]>
+  /** The routes currently served, by the same key */
+  routes: Map<string, ScannedRoute>
+  /** Duplicate-detection keys the config holds in `app.$registeredRoutes` */
+  routeKeys: Set<string>
+}
+
+export function createHotRouteTable(): HotRouteTable {
+  return { chains: new Map(), routes: new Map(), routeKeys: new Set() }
+}
+
+/** Key of a scanned route's dispatcher. */
+export function hotRouteKey({ method, registeredPath }: ScannedRoute): string {
+  return `${method} ${registeredPath}`
+}
+
+/**
+ * Run `chain` as the framework would have: each function gets the request
+ * arguments — `(ctx)` or `(req, res)` — and a `next` that runs the one after
+ * it. The framework's own `next`, when it passed one, runs after the last,
+ * and receives anything but `undefined` passed to a `next` (Express's `next(err)`).
+ */
+export function runChain(chain: readonly Function[], args: unknown[]): unknown {
+  const last = args[args.length - 1]
+  const frameworkNext = typeof last === 'function' ? last : undefined
+  const requestArgs = frameworkNext ? args.slice(0, -1) : args
+  const dispatch = (index: number): unknown => {
+    if (index === chain.length) return frameworkNext?.()
+    return chain[index](...requestArgs, (err?: unknown) => (err === undefined ? dispatch(index + 1) : frameworkNext?.(err)))
+  }
+  return dispatch(0)
+}
+
+/** The handler registered for `key`: it runs whatever chain the table holds for it at request time. */
+export function createDispatcher(table: HotRouteTable, key: string): Function {
+  return (...args: unknown[]) => runChain(table.chains.get(key) ?? [], args)
+}
@@ -8,6 +8,7 @@
  * without touching `__`-prefixed files. A bare string / RegExp is shorthand
  * for `type: 'both'`.
  */
+import { getMessages, type Locale } from './messages'
 
 export type IgnoreTarget = 'file' | 'dir' | 'both'
 
@@ -34,11 +35,12 @@ function describe(entry: IgnorePattern): string {
 
 /**
  * Compile user-provided ignore patterns into `CompiledIgnorePattern` instances.
- * Throws with a clear message (index + source) when a pattern is not a string /
- * RegExp, its `type` is invalid, or a string is not valid regex.
+ * Throws with a clear message (index + source), in `locale`, when a pattern is
+ * not a string / RegExp, its `type` is invalid, or a string is not valid regex.
  */
-export function compileIgnorePatterns(patterns: IgnorePattern[] | undefined): CompiledIgnorePattern[] {
+export function compileIgnorePatterns(patterns: IgnorePattern[] | undefined, locale?: Locale): CompiledIgnorePattern[] {
   if (!patterns || patterns.length === 0) return []
+  const msg = getMessages(locale)
   return patterns.map((raw, index) => {
     let pattern: string | RegExp
     let target: IgnoreTarget
@@ -49,27 +51,23 @@ export function compileIgnorePatterns(patterns: IgnorePattern[] | undefined): Co
       // Runtime JS can pass anything; give a clear error instead of a confusing
       // TypeError (e.g. `null`) or a silent no-op before the pattern check.
       if (!raw || typeof raw !== 'object') {
-        throw new Error(
-          `Invalid ignore entry at index ${index}: expected a string, RegExp, or { pattern, type } object`
-        )
+        throw new Error(msg.ignoreEntry(index))
       }
       pattern = raw.pattern
       target = raw.type ?? 'both'
     }
 
     if (typeof pattern !== 'string' && !(pattern instanceof RegExp)) {
-      throw new Error(`Invalid ignore entry at index ${index}: "pattern" must be a string or RegExp`)
+      throw new Error(msg.ignoreEntryPattern(index))
     }
     if (target !== 'file' && target !== 'dir' && target !== 'both') {
-      throw new Error(`Invalid ignore type at index ${index}: "${String(target)}" — expected "file", "dir" or "both"`)
+      throw new Error(msg.ignoreType(index, String(target)))
     }
     if (typeof pattern === 'string') {
       try {
         pattern = new RegExp(pattern)
       } catch (err) {
-        throw new Error(
-          `Invalid ignore pattern at index ${index} ("${describe(raw)}"): ${err instanceof Error ? err.message : String(err)}`
-        )
+        throw new Error(msg.ignorePattern(index, describe(raw), err instanceof Error ? err.message : String(err)))
       }
     }
     return { regex: pattern, target }
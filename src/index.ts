@@ -1,7 +1,16 @@
-export { autoRouter } from './auto-router'
-export type { AutoRouterOptions } from './auto-router'
+export { autoRouter, scanRoutes } from './auto-router'
+export type { AutoRouterOptions, ScanRoutesResult } from './auto-router'
 export type { IgnorePattern, IgnorePatternEntry, IgnoreTarget } from './ignore'
 export { staticAutoRouter } from './static-router'
-export type { RouteHandler, RouteMiddleware, RouteMeta, RouteConfig, RouteInfo, AppRoutesRegistry, AppLike } from './handler'
+export type { RouteHandler, RouteMiddleware, RouteMeta, RouteConfig, RouteInfo, AppRoutesRegistry, AppLike, RegisteredRoute, RouteOverlap } from './handler'
 export type { StaticRoute, StaticAutoRouterOptions } from './static-router'
-export { createHandler, isRouteConfig } from './handler'
\ No newline at end of file
+export type { PathCase } from './parse-route'
+export { createHandler, isRouteConfig } from './handler'
+export { HTTP_METHODS, EXTENDED_HTTP_METHODS } from './constants'
+export type { TrailingSlashPolicy } from './constants'
+export type { ParsedFileName, FileNameParser, FileNamePreset } from './validation'
+export type { ParamNameConsistency } from './param-names'
+export type { ErrorPolicy } from './route-errors'
+export type { RouteDiagnostic, DiagnosticCode } from './diagnostics'
+export type { Locale } from './messages'
+export type { LogLevel, LogEventLevel, OnLogLevel, LogFormat } from './logger'
@@ -0,0 +1,67 @@
+/**
+ * Lazy loading (`lazy: true`): route files are registered from their names
+ * alone and imported on their first request, so a large controller tree does
+ * not pay for every import at cold start. Meta and auth come from a prebuilt
+ * `routeManifest` (the routes of `scanRoutes()`), so `$routes` — and auth
+ * middleware reading it — is right before any file loads.
+ */
+import type { RouteConvention } from './constants'
+import type { RouteInfo } from './handler'
+import type { ResolvedRouteExport } from './load-routes'
+import { runChain } from './hot-routes'
+import { getMessages, type Locale } from './messages'
+
+/**
+ * Validate `lazy` against the options it depends on, at router creation
+ * (default: false). Without a `routeManifest` a route's createHandler meta —
+ * its `requiresAuth` included — is unknown until its first request. A
+ * `route.ts` file's methods are only known once it is imported, and watch
+ * mode tells edits apart by handler identity.
+ */
+export function resolveLazy(
+  lazy: boolean | undefined,
+  convention: RouteConvention,
+  watch: boolean,
+  routeManifest?: readonly RouteInfo[],
+  locale?: Locale
+): boolean {
+  if (!lazy) return false
+  const msg = getMessages(locale)
+  if (routeManifest === undefined) throw new Error(msg.lazyWithoutManifest)
+  if (convention === 'module') throw new Error(msg.lazyModuleConvention)
+  if (watch) throw new Error(msg.lazyWithWatch)
+  return true
+}
+
+/** Index a `routeManifest` — the `routes` of `scanRoutes()` — by `METHOD /path`. */
+export function resolveRouteManifest(routeManifest?: readonly RouteInfo[], locale?: Locale): ReadonlyMap<string, RouteInfo> | undefined {
+  if (routeManifest === undefined) return undefined
+  if (!Array.isArray(routeManifest)) {
+    throw new Error(getMessages(locale).invalidRouteManifest)
+  }
+  return new Map(routeManifest.map(route => [`${route.method} ${route.path}`, route]))
+}
+
+/**
+ * The handler a lazy route is registered with. Its first call imports the
+ * module through `loadExport` (one import per file, shared by its methods),
+ * then every call runs the export's createHandler middlewares and handler.
+ * A module that failed to load was reported; its requests fail. Failures of
+ * an Express-style `(req, res, next)` call go to `next(err)`, since Express 4
+ * ignores the returned promise; `(ctx, next)` frameworks get the rejection.
+ */
+export function createLazyHandler(
+  loadExport: () => Promise<ResolvedRouteExport | undefined>,
+  filePath: string,
+  locale?: Locale
+): Function {
+  return (...args: unknown[]) => {
+    const last = args[args.length - 1]
+    const next = args.length >= 3 && typeof last === 'function' ? (last as (err: unknown) => unknown) : undefined
+    const handled = loadExport().then(resolved => {
+      if (!resolved) throw new Error(getMessages(locale).lazyLoadFailed(filePath))
+      return runChain([...(resolved.middlewares ?? []), resolved.handler], args)
+    })
+    return next ? handled.catch(err => next(err)) : handled
+  }
+}
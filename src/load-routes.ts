@@ -1,12 +1,31 @@
 import { readdirSync, statSync } from 'fs'
 import { join, resolve } from 'path'
 import { pathToFileURL } from 'url'
-import { isRouteConfig, type AppLike, type RouteMeta, type RouteInfo, type RouteMiddleware } from './handler'
-import { HTTP_METHODS } from './constants'
-import { validateFileName, isHttpMethodKeyword } from './validation'
+import { isRouteConfig, type AppLike, type RouteMeta, type RouteInfo, type RouteMiddleware, type RegisteredRoute } from './handler'
+import { ALL_METHODS_PREFIX, DIRECTORY_META_FILES, DIRECTORY_MIDDLEWARE_FILES, ROUTE_MODULE_FILES, type RouteConvention, type TrailingSlashPolicy } from './constants'
+import { classifyModuleExports, isHttpMethodKeyword, type FileNameValidator } from './validation'
 import { resolveAuth, ForcePatternTracker } from './auth-resolver'
-import { validateDirectorySegment, parseRouteName, parseDirectorySegment, normalizeParamNames } from './parse-route'
+import {
+  parseRouteName,
+  parseDirectorySegment,
+  normalizeParamNames,
+  validateRestPosition,
+  validateUniqueParamNames,
+  expandOptionalSegments,
+  collectParamTypes,
+  stripParamConstraints,
+  parseGroupSegment,
+  inlineRestParam,
+} from './parse-route'
 import { isIgnored, type CompiledIgnorePattern } from './ignore'
+import { compareRoutes, recordRouteOverlaps } from './route-order'
+import { checkParamNames, type ParamNameConsistency } from './param-names'
+import { collectErrors, type ErrorPolicy } from './route-errors'
+import { createReporter, type ReportFn, type RouteDiagnostic } from './diagnostics'
+import { getMessages, type Locale } from './messages'
+import { createDispatcher, hotRouteKey, runChain, type HotRouteTable } from './hot-routes'
+import { createLazyHandler } from './lazy-routes'
+import { createLogger, type LogEventLevel, type LogFields, type LogFn, type LogFormat, type LogLevel } from './logger'
 
 /** Internal options passed from autoRouter() after normalization. */
 export interface LoadRoutesOptions {
@@ -18,111 +37,459 @@ export interface LoadRoutesOptions {
   forcePublic?: string[]
   forceProtected?: string[]
   ignore: CompiledIgnorePattern[]
-  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void
+  /** Resolved `[name:type]` param types (built-ins merged with custom ones). */
+  paramTypes: Readonly<Record<string, string>>
+  /** Register typed params with an inline `(regex)` instead of the plain `:name`, and rest params as `:name(.+)`. */
+  inlineParamRegex: boolean
+  /** Tags merged into the meta of every route inside a `(name)` route group. */
+  groupTags?: Record<string, string[]>
+  /** `'file'`: one default export per method-named file; `'module'`: `route.ts` files with named method exports. */
+  convention: RouteConvention
+  /** Accepted lowercase method prefixes (the `all` prefix is always accepted). */
+  methods: readonly string[]
+  /** File-name convention from `resolveFileNameParser` (`validateFileName` by default). */
+  parseFileName: FileNameValidator
+  /** Static-text transform from `resolvePathCase`; absent keeps names as written. */
+  pathCase?: (text: string) => string
+  /** Register `/path/` aliases (`'ignore'`) or 308 redirects (`'redirect'`); unset registers none. */
+  trailingSlash?: TrailingSlashPolicy
+  /** Report params named differently at the same position; unset skips the check. */
+  paramNameConsistency?: ParamNameConsistency
+  /** `'throw'`: autoRouter rejects with the problems `loadRoutes` resolves to. */
+  onError: ErrorPolicy
+  /** Language of log lines and diagnostic messages. */
+  locale: Locale
+  /** Lowest level that is logged, to `onLog` or the console. */
+  logLevel: LogLevel
+  logFormat: LogFormat
+  onLog?: (level: LogEventLevel, message: string) => void
+  /** Structured sink for warnings and errors; when set, they no longer reach `onLog`. */
+  onDiagnostic?: (diagnostic: RouteDiagnostic) => void
+  /** Re-scan `dir` on change; imports are versioned by mtime so an edited file is imported afresh. */
+  watch: boolean
+  /** Register route files without importing them; each is imported on its first request. */
+  lazy: boolean
+  /** Meta and auth of lazy routes by `METHOD /path`, from a prebuilt `scanRoutes()` route list; set whenever `lazy` is. */
+  routeManifest?: ReadonlyMap<string, RouteInfo>
 }
 
-function createLogger(onLog: LoadRoutesOptions['onLog'], logging: boolean) {
-  return (level: 'info' | 'warn' | 'error', message: string) => {
-    if (onLog) {
-      onLog(level, message)
-      return
-    }
+/** Per-directory state accumulated while scanning, root to leaf. */
+interface DirectoryScope {
+  basePath: string
+  paramTypes: Record<string, string>
+  groups: string[]
+  /** Merged `_meta` of this directory and its ancestors (child keys win). */
+  meta: Promise<RouteMeta | undefined>
+  /** `_middleware` chain of this directory and its ancestors, root first. */
+  middlewares: Promise<RouteMiddleware[]>
+}
+
+/** A route export unwrapped into its handler, meta and middlewares. */
+export interface ResolvedRouteExport {
+  handler: Function
+  routeMeta?: RouteMeta
+  middlewares?: RouteMiddleware[]
+}
+
+/** A scanned route: its `RouteInfo` plus what registering it on an app takes. */
+export interface ScannedRoute {
+  /** Lowercase method, the `app[method]` registration function */
+  method: string
+  /** Path with any `(regex)` constraints, used for ordering */
+  path: string
+  registeredPath: string
+  routeInfo: RouteInfo
+  handlers: Function[]
+  filePath: string
+}
+
+/** Drop the trailing slash of a request URL's path, keeping its query string. */
+function withoutTrailingSlash(url: string): string {
+  const queryStart = url.indexOf('?')
+  const path = queryStart === -1 ? url : url.slice(0, queryStart)
+  return (path.replace(/\/+$/, '') || '/') + (queryStart === -1 ? '' : url.slice(queryStart))
+}
+
+/** The parts of an Express-style `(req, res, next)` call the trailing-slash handlers use. */
+interface ExpressRequestLike {
+  originalUrl?: string
+  url: string
+}
+
+interface ExpressResponseLike {
+  redirect(status: number, url: string): void
+}
 
-    if (!logging) return
-
-    switch (level) {
-      case 'info':
-        console.log(message)
-        break
-      case 'warn':
-        console.warn(message)
-        break
-      case 'error':
-        console.error(message)
-        break
+/** Hoa's context: the request URL on `ctx.req`, the response on `ctx.res`. */
+interface HoaContextLike {
+  req: { pathname: string; search?: string }
+  res: { redirect(url: string): void; status: number }
+}
+
+/** Koa's single context. */
+interface KoaContextLike {
+  originalUrl?: string
+  url: string
+  status: number
+  set(field: string, value: string): void
+}
+
+/** A request as the trailing-slash handlers see it, whatever the framework. */
+interface SlashRequest {
+  /** Path and query string */
+  url: string
+  /** Answer with a 308 to `location` */
+  redirect: (location: string) => void
+  /** The framework's next route or middleware */
+  next?: () => unknown
+}
+
+function hasMethod(value: unknown, name: string): boolean {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>)[name] === 'function'
+}
+
+/**
+ * Read the handler arguments of Express-style `(req, res, next)`, Hoa's
+ * `ctx.req` / `ctx.res` or a Koa-style single context.
+ */
+function readSlashRequest([ctx, res, next]: unknown[]): SlashRequest {
+  if (hasMethod(res, 'redirect')) {
+    const req = ctx as ExpressRequestLike
+    return {
+      url: req.originalUrl ?? req.url,
+      redirect: location => (res as ExpressResponseLike).redirect(308, location),
+      next: next as (() => unknown) | undefined
+    }
+  }
+  const frameworkNext = res as (() => unknown) | undefined
+  if (typeof ctx === 'object' && ctx !== null && hasMethod((ctx as { res?: unknown }).res, 'redirect')) {
+    const hoa = ctx as HoaContextLike
+    return {
+      url: `${hoa.req.pathname}${hoa.req.search ?? ''}`,
+      redirect: location => {
+        hoa.res.redirect(location)
+        hoa.res.status = 308
+      },
+      next: frameworkNext
     }
   }
+  const koa = ctx as KoaContextLike
+  return {
+    url: koa.originalUrl ?? koa.url,
+    redirect: location => {
+      koa.status = 308
+      koa.set('Location', location)
+    },
+    next: frameworkNext
+  }
 }
 
-export async function loadRoutes(
-  app: AppLike,
-  options: LoadRoutesOptions
-) {
-  const { dir, prefix, defaultRequiresAuth, strict, forcePublic, forceProtected, ignore } = options
-  const log = createLogger(options.onLog, options.logging)
+/**
+ * The `/path/` handler of `trailingSlash: 'redirect'`: a 308 to the path
+ * without the slash. It is registered before the route itself, and a
+ * non-strict router (Express's default) also matches `/path` against it —
+ * such a request is passed on to the route.
+ */
+function redirectWithoutTrailingSlash(...args: unknown[]): unknown {
+  const request = readSlashRequest(args)
+  const location = withoutTrailingSlash(request.url)
+  if (location === request.url) return request.next?.()
+  request.redirect(location)
+  return undefined
+}
+
+/**
+ * A rest route's chain as one handler that applies `trailingSlash` itself: a
+ * rest param also matches `/a/`, so there is no `/path/` route to register.
+ * Under 'redirect' `/a/` gets a 308 to `/a`; under 'strict' it goes to the
+ * framework's next route, as the worker router leaves it unmatched.
+ */
+function withRestTrailingSlash(handlers: Function[], trailingSlash: 'strict' | 'redirect'): Function {
+  return (...args: unknown[]) => {
+    const request = readSlashRequest(args)
+    const location = withoutTrailingSlash(request.url)
+    if (location === request.url) return runChain(handlers, args)
+    if (trailingSlash === 'strict') return request.next?.()
+    request.redirect(location)
+    return undefined
+  }
+}
+
+/**
+ * Whether `app` is an Express app or router that still matches `/path/`
+ * against a `/path` route — Express's default, which `trailingSlash:
+ * 'strict'` cannot undo from the outside.
+ */
+function isNonStrictExpressRouter(app: AppLike): boolean {
+  if (typeof app.enabled === 'function' && typeof app.set === 'function') {
+    return !(app.enabled as (setting: string) => boolean)('strict routing')
+  }
+  // An express.Router() is a function carrying its options
+  const router = app as unknown as Function & { stack?: unknown; strict?: boolean }
+  return typeof router === 'function' && Array.isArray(router.stack) && !router.strict
+}
+
+/**
+ * Scan, validate and import a controller directory without an app: every
+ * check `loadRoutes` makes, with its warnings and errors sent to `report`.
+ * `registeredRoutes` holds the duplicate-detection keys of routes found
+ * before (an app's `$registeredRoutes` or a fresh set) and gains this
+ * scan's keys. Routes come back in registration order; undefined means the
+ * directory itself could not be read.
+ */
+export async function scanControllerRoutes(
+  options: LoadRoutesOptions,
+  registeredRoutes: Set<string>,
+  log: LogFn,
+  report: ReportFn
+): Promise<ScannedRoute[] | undefined> {
+  const { dir, prefix, defaultRequiresAuth, strict, forcePublic, forceProtected, ignore, paramTypes, inlineParamRegex, groupTags, convention, methods, parseFileName, pathCase, paramNameConsistency, locale, watch, lazy, routeManifest } = options
+  const msg = getMessages(locale)
 
   const tracker = new ForcePatternTracker()
 
   const importPromises: Promise<void>[] = []
-  const routeLogLines: Array<{ path: string; method: string; line: string }> = []
+  const scannedRoutes: ScannedRoute[] = []
+  // URL paths claimed by `route.ts` files in this scan (module convention)
+  const routeModulePaths = new Set<string>()
+
+  /** The accepted export shapes for the active convention, then a pointer to the other one. */
+  function correctWays(notSupported?: string): string[] {
+    return [
+      `   ❌ ${msg.correctWays}`,
+      ...(convention === 'module'
+        ? [`      ✅ export const GET = async (ctx) => { ... }`, `      ✅ export const POST = createHandler(async (ctx) => { ... }, meta)`]
+        : [`      ✅ export default async (ctx) => { ... }`, `      ✅ export default createHandler(async (ctx) => { ... }, meta)`]),
+      ...(notSupported ? [`      ❌ ${msg.notSupported(notSupported)}`] : []),
+      `      💡 ${convention === 'module' ? msg.tipFileConvention : msg.tipModuleConvention}`,
+    ]
+  }
 
-  if (!app.$routes) {
-    app.$routes = {
-      publicRoutes: [],
-      protectedRoutes: [],
-      all: [],
+  /**
+   * URL a controller module is imported from. In watch mode its mtime is
+   * appended, so an edited file is a new module while unchanged files keep
+   * the cached one (and their handlers' identity).
+   */
+  function moduleUrl(filePath: string): string {
+    const href = pathToFileURL(resolve(filePath)).href
+    return watch ? `${href}?v=${statSync(filePath).mtimeMs}` : href
+  }
+
+  /** Report a file-level error under the `❌ <headline>: <file>` heading, with `details` below the reason. */
+  function reportFile(code: RouteDiagnostic['code'], headline: string, filePath: string, message: string, details: string[] = []) {
+    report({ code, severity: 'error', file: filePath, message }, [`❌ ${headline}: ${filePath}`, `   ❌ ${message}`, ...details])
+  }
+
+  /**
+   * Unwrap one route export (`default` or a method name such as `GET`) into
+   * its handler, meta and middlewares. Invalid exports are logged and yield
+   * undefined; a null/undefined export is skipped silently.
+   */
+  function resolveRouteExport(exported: unknown, exportName: string, filePath: string): ResolvedRouteExport | undefined {
+    const subject = exportName === 'default' ? msg.defaultExport : msg.namedExport(exportName)
+
+    if (exported === undefined || exported === null) {
+      return undefined
+    }
+
+    if (!exported) {
+      reportFile('AR_INVALID_EXPORT', msg.failedToLoad, filePath, msg.falsyExport(subject, JSON.stringify(exported)))
+      return undefined
+    }
+
+    if (strict && typeof exported !== 'function' && !isRouteConfig(exported)) {
+      reportFile('AR_STRICT_EXPORT', msg.failedToLoad, filePath, msg.strictExport, [
+        `   ❌ ${exportName === 'default' ? msg.currentExportType(typeof exported) : msg.currentNamedExportType(exportName, typeof exported)}`,
+        ...correctWays(`export ${exportName === 'default' ? 'default' : `const ${exportName} =`} { handler, meta }`),
+        `      💡 ${msg.tipStrict}`,
+      ])
+      return undefined
     }
+
+    if (isRouteConfig(exported)) {
+      return { handler: exported.handler, routeMeta: exported.meta, middlewares: exported.middlewares }
+    }
+    if (typeof exported === 'function') {
+      // routeMeta remains undefined, use global default
+      return { handler: exported }
+    }
+    if (typeof exported === 'object') {
+      if ('handler' in exported && typeof exported.handler === 'function') {
+        report(
+          { code: 'AR_LOOSE_EXPORT', severity: 'warn', file: filePath, message: msg.looseExport },
+          [`⚠️  ${msg.warning}: ${filePath}`, `   ⚠️  ${msg.looseExport}`]
+        )
+        const { meta, middlewares } = exported as { meta?: RouteMeta; middlewares?: RouteMiddleware[] }
+        return { handler: exported.handler, routeMeta: meta, middlewares }
+      }
+      reportFile('AR_INVALID_EXPORT', msg.failedToLoad, filePath, msg.missingHandler)
+      return undefined
+    }
+
+    reportFile('AR_INVALID_EXPORT', msg.failedToLoad, filePath, msg.unsupportedExport(typeof exported), correctWays())
+    return undefined
   }
 
-  if (!app.$registeredRoutes) {
-    app.$registeredRoutes = new Set<string>()
+  /** Unwrap a `'file'` convention module's default export; named exports next to it are an error. */
+  function resolveDefaultExport(module: Record<string, unknown>, filePath: string): ResolvedRouteExport | undefined {
+    const namedExports = Object.keys(module).filter(key => key !== 'default')
+    if (namedExports.length > 0) {
+      reportFile('AR_NAMED_EXPORTS', msg.failedToLoad, filePath, msg.namedExports, [
+        `   ❌ ${msg.detectedNamedExports(namedExports.join(', '))}`,
+        `   💡 ${msg.tipNamedExports}`,
+      ])
+      return undefined
+    }
+    return resolveRouteExport(module.default, 'default', filePath)
+  }
+
+  /**
+   * Import a directory's `_meta` module and merge it over the inherited meta.
+   * A broken module is reported and the directory keeps its parent's meta.
+   */
+  async function loadDirectoryMeta(filePath: string, inherited: Promise<RouteMeta | undefined>): Promise<RouteMeta | undefined> {
+    const parentMeta = await inherited
+    try {
+      const module = await import(moduleUrl(filePath))
+      const meta: unknown = module.default
+      if (!meta || typeof meta !== 'object' || Array.isArray(meta)) {
+        reportFile('AR_INVALID_DIRECTORY_META', msg.invalidDirectoryMeta, filePath, msg.invalidMetaExport)
+        return parentMeta
+      }
+      return { ...parentMeta, ...(meta as RouteMeta) }
+    } catch (err: unknown) {
+      reportFile('AR_IMPORT_FAILED', msg.failedDirectoryMeta, filePath, err instanceof Error ? err.message : String(err))
+      return parentMeta
+    }
+  }
+
+  /**
+   * Import a directory's `_middleware` module and append it to the inherited
+   * chain. A broken module is reported and the directory keeps its parent's chain.
+   */
+  async function loadDirectoryMiddlewares(filePath: string, inherited: Promise<RouteMiddleware[]>): Promise<RouteMiddleware[]> {
+    const parentMiddlewares = await inherited
+    try {
+      const module = await import(moduleUrl(filePath))
+      const exported: unknown = module.default
+      const middlewares = Array.isArray(exported) ? exported : [exported]
+      if (middlewares.some(middleware => typeof middleware !== 'function')) {
+        reportFile('AR_INVALID_DIRECTORY_MIDDLEWARE', msg.invalidDirectoryMiddleware, filePath, msg.invalidMiddlewareExport)
+        return parentMiddlewares
+      }
+      return [...parentMiddlewares, ...(middlewares as RouteMiddleware[])]
+    } catch (err: unknown) {
+      reportFile('AR_IMPORT_FAILED', msg.failedDirectoryMiddleware, filePath, err instanceof Error ? err.message : String(err))
+      return parentMiddlewares
+    }
   }
-  const registeredRoutes = app.$registeredRoutes
 
-  function scanDirectory(dirPath: string, basePath: string = '') {
+  function scanDirectory(
+    dirPath: string,
+    scope: DirectoryScope = {
+      basePath: '',
+      paramTypes: {},
+      groups: [],
+      meta: Promise.resolve(undefined),
+      middlewares: Promise.resolve([]),
+    }
+  ) {
     const files = readdirSync(dirPath)
 
+    const metaFile = files.find(file =>
+      (DIRECTORY_META_FILES as readonly string[]).includes(file) && !isIgnored(file, false, ignore)
+    )
+    if (metaFile) {
+      scope = { ...scope, meta: loadDirectoryMeta(join(dirPath, metaFile), scope.meta) }
+      importPromises.push(scope.meta.then(() => undefined))
+    }
+
+    const middlewareFile = files.find(file =>
+      (DIRECTORY_MIDDLEWARE_FILES as readonly string[]).includes(file) && !isIgnored(file, false, ignore)
+    )
+    if (middlewareFile) {
+      scope = { ...scope, middlewares: loadDirectoryMiddlewares(join(dirPath, middlewareFile), scope.middlewares) }
+      importPromises.push(scope.middlewares.then(() => undefined))
+    }
+
     for (const file of files) {
+      if ((DIRECTORY_META_FILES as readonly string[]).includes(file)) continue
+      if ((DIRECTORY_MIDDLEWARE_FILES as readonly string[]).includes(file)) continue
+
       const filePath = join(dirPath, file)
       let fileStat: ReturnType<typeof statSync>
       try {
         fileStat = statSync(filePath)
       } catch (err: unknown) {
-        log('warn', `⚠️  Skip entry (stat failed): ${filePath}`)
-        log('warn', `   ⚠️  ${err instanceof Error ? err.message : String(err)}`)
+        const message = err instanceof Error ? err.message : String(err)
+        report({ code: 'AR_STAT_FAILED', severity: 'warn', file: filePath, message }, [`⚠️  ${msg.statFailed}: ${filePath}`, `   ⚠️  ${message}`])
         continue
       }
 
       // Skip ignored entries before validation — a matched folder is skipped
       // whole (no recursion), a matched file silently (no error log). The
       // entry's kind decides which patterns apply (file / dir / both).
-      if (isIgnored(file, fileStat.isDirectory(), ignore)) continue
+      if (isIgnored(file, fileStat.isDirectory(), ignore)) {
+        log('debug', `⏭️  ${msg.ignored}: ${filePath}`, { file: filePath })
+        continue
+      }
 
       if (fileStat.isDirectory()) {
-        if (isHttpMethodKeyword(file)) {
-          log('warn', `⚠️  Warning: Directory name "${file}" is an HTTP method keyword, consider renaming`)
+        if (isHttpMethodKeyword(file, methods)) {
+          const message = msg.methodDirectory(file)
+          report({ code: 'AR_METHOD_DIRECTORY_NAME', severity: 'warn', file: filePath, message }, [`⚠️  ${msg.warning}: ${message}`])
         }
-        let dirSegment: string
+        // A `(name)` route group adds no path segment, only a group name.
+        let childScope: DirectoryScope
         try {
-          dirSegment = parseDirectorySegment(file)
+          const group = parseGroupSegment(file, locale)
+          childScope = group !== undefined
+            ? { ...scope, groups: [...scope.groups, group] }
+            : {
+              basePath: `${scope.basePath}/${parseDirectorySegment(file, { paramTypes, pathCase, locale })}`,
+              paramTypes: { ...scope.paramTypes, ...collectParamTypes(file) },
+              groups: scope.groups,
+              meta: scope.meta,
+              middlewares: scope.middlewares,
+            }
         } catch (err: unknown) {
-          log('error', `❌ Skip directory: ${filePath}`)
-          log('error', `   ❌ ${err instanceof Error ? err.message : String(err)}`)
+          reportFile('AR_INVALID_DIRECTORY_NAME', msg.skipDirectory, filePath, err instanceof Error ? err.message : String(err))
           continue
         }
         try {
-          scanDirectory(filePath, basePath ? `${basePath}/${dirSegment}` : `/${dirSegment}`)
+          scanDirectory(filePath, childScope)
         } catch (err: unknown) {
-          log('warn', `⚠️  Skip directory (scan failed): ${filePath}`)
-          log('warn', `   ⚠️  ${err instanceof Error ? err.message : String(err)}`)
+          const message = err instanceof Error ? err.message : String(err)
+          report({ code: 'AR_SCAN_FAILED', severity: 'warn', file: filePath, message }, [`⚠️  ${msg.scanFailed}: ${filePath}`, `   ⚠️  ${message}`])
         }
       } else if ((file.endsWith('.ts') && !file.endsWith('.d.ts')) || file.endsWith('.js')) {
-        const validation = validateFileName(file)
-        if (!validation.valid) {
-          log('error', `❌ Skip file: ${filePath}`)
-          log('error', `   ❌ ${validation.error}`)
-          continue
-        }
-
-        const method = validation.method!
-        const nameWithoutExt = file.replace(/\.(ts|js)$/, '')
-
+        // In the module convention only `route.ts` files are routes (other files
+        // are colocated helpers) and the methods come from their named exports.
+        // Methods declared by the file name (`get+head-users.ts` declares two)
+        let fileMethods: string[] | undefined
         let routeName = ''
-        if (nameWithoutExt !== method) {
-          routeName = nameWithoutExt.substring(method.length + 1)
+        if (convention === 'module') {
+          if (!(ROUTE_MODULE_FILES as readonly string[]).includes(file)) continue
+        } else {
+          const validation = parseFileName(file, { paramTypes, methods, locale })
+          if (!validation.valid) {
+            reportFile('AR_INVALID_FILE_NAME', msg.skipFile, filePath, validation.error!)
+            continue
+          }
+
+          fileMethods = validation.methods!
+          routeName = validation.routeName!
         }
 
-        routeName = parseRouteName(routeName)
+        const { basePath, groups, meta: directoryMeta, middlewares: directoryMiddlewares } = scope
+        const routeParamTypes = { ...scope.paramTypes, ...collectParamTypes(routeName) }
+        try {
+          routeName = parseRouteName(routeName, { paramTypes, pathCase, locale })
+        } catch (err: unknown) {
+          // Only a custom pathCase function can fail here — the name is validated
+          reportFile('AR_PATH_CASE_FAILED', msg.skipFile, filePath, err instanceof Error ? err.message : String(err))
+          continue
+        }
 
         let fullPath: string
         if (routeName) {
@@ -133,96 +500,110 @@ export async function loadRoutes(
 
         fullPath = fullPath.replace(/\/+/g, '/')
 
-        // Detect duplicate routes — param-name casing is folded for the key,
-        // so `get-[userId].ts` and `get-[UserID].ts` are treated as the same route.
-        const routePath = prefix
-          ? `${prefix}${fullPath}`.replace(/\/+/g, '/')
-          : fullPath
-        const routeKey = `${method.toUpperCase()} ${normalizeParamNames(routePath)}`
-        if (registeredRoutes.has(routeKey)) {
-          log('error', `❌ Skip file: ${filePath}`)
-          log('error', `   ❌ Duplicate route: ${routeKey}`)
+        // A `[...rest]` directory swallows everything below it, so a file that
+        // appends another segment can never be reached.
+        try {
+          validateRestPosition(fullPath, locale)
+        } catch (err: unknown) {
+          reportFile('AR_REST_NOT_LAST', msg.skipFile, filePath, err instanceof Error ? err.message : String(err))
           continue
         }
-        registeredRoutes.add(routeKey)
-
-        const absolutePath = resolve(filePath)
-        const fileUrl = pathToFileURL(absolutePath).href
-
-        const importPromise = (async () => {
-          try {
-            const module = await import(fileUrl)
-            let handler = module.default
-            let routeMeta: RouteMeta | undefined
-            let middlewares: RouteMiddleware[] | undefined
-
-            if (handler === undefined || handler === null) {
-              return
-            }
-
-            if (!handler) {
-              log('error', `❌ Failed to load route: ${filePath}`)
-              log('error', `   ❌ Default export is a falsy non-null value (${JSON.stringify(handler)}), expected a function or createHandler result`)
-              return
-            }
-
-            if (strict && typeof handler !== 'function' && !isRouteConfig(handler)) {
-              log('error', `❌ Failed to load route: ${filePath}`)
-              log('error', `   ❌ In strict mode, only functions or createHandler results are allowed`)
-              log('error', `   ❌ Current export type: ${typeof handler}`)
-              log('error', `   ❌ Correct ways:`)
-              log('error', `      ✅ export default async (ctx) => { ... }`)
-              log('error', `      ✅ export default createHandler(async (ctx) => { ... }, meta)`)
-              log('error', `      ❌ Not supported: export default { handler, meta }`)
-              log('error', `      💡 Tip: You can set strict: false to disable strict checking`)
-              return
-            }
 
-            const namedExports = Object.keys(module).filter(key => key !== 'default')
-            if (namedExports.length > 0) {
-              log('error', `❌ Failed to load route: ${filePath}`)
-              log('error', `   ❌ File can only have default export, named exports are not allowed`)
-              log('error', `   ❌ Detected named exports: ${namedExports.join(', ')}`)
-              return
-            }
+        // A param name declared by both a directory and the file (`[id]/get-[id].ts`)
+        // keeps only one value; non-strict mode registers the route anyway.
+        try {
+          validateUniqueParamNames(fullPath, locale)
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : String(err)
+          if (strict) {
+            reportFile('AR_REPEATED_PARAM', msg.skipFile, filePath, message)
+            continue
+          }
+          report(
+            { code: 'AR_REPEATED_PARAM', severity: 'warn', file: filePath, message: msg.nonStrict(message) },
+            [`⚠️  ${filePath}`, `   ⚠️  ${msg.nonStrict(message)}`]
+          )
+        }
 
-            if (isRouteConfig(handler)) {
-              routeMeta = handler.meta
-              middlewares = handler.middlewares
-              handler = handler.handler
-            } else if (typeof handler === 'function') {
-              // routeMeta remains undefined, use global default
-            } else if (typeof handler === 'object' && handler !== null) {
-              if (typeof handler.handler === 'function') {
-                log('warn', `⚠️  Warning: ${filePath}`)
-                log('warn', `   ⚠️  Detected non-recommended export method (non-strict mode)`)
-                routeMeta = handler.meta
-                middlewares = handler.middlewares
-                handler = handler.handler
-              } else {
-                log('error', `❌ Failed to load route: ${filePath}`)
-                log('error', `   ❌ Exported object must contain handler function`)
-                return
-              }
-            } else {
-              const handlerType = typeof handler
-              log('error', `❌ Failed to load route: ${filePath}`)
-              log('error', `   ❌ Unsupported export type: ${handlerType}`)
-              log('error', `   ❌ Only the following ways are allowed:`)
-              log('error', `      ✅ export default async (ctx) => { ... }`)
-              log('error', `      ✅ export default createHandler(async (ctx) => { ... }, meta)`)
-              return
-            }
+        // Detect duplicate routes — param-name casing is folded for the key,
+        // so `get-[userId].ts` and `get-[UserID].ts` are treated as the same route.
+        // An optional `[[param]]` file registers (and claims) both expanded forms.
+        const routePaths = expandOptionalSegments(
+          prefix ? `${prefix}${fullPath}`.replace(/\/+/g, '/') : fullPath
+        )
+        const claimRoute = (routeMethod: string): boolean => {
+          const routeKeys = routePaths.map(routePath => `${routeMethod.toUpperCase()} ${normalizeParamNames(routePath)}`)
+          const duplicateKey = routeKeys.find(routeKey => registeredRoutes.has(routeKey))
+          if (duplicateKey) {
+            // Only a single-method file is skipped whole; otherwise just this method
+            report(
+              { code: 'AR_DUPLICATE_ROUTE', severity: 'error', file: filePath, route: duplicateKey, message: msg.duplicateRoute(duplicateKey) },
+              [
+                `❌ ${fileMethods?.length === 1 ? msg.skipFile : msg.skipMethodRoute(routeMethod.toUpperCase())}: ${filePath}`,
+                `   ❌ ${msg.duplicateRoute(duplicateKey)}`,
+              ]
+            )
+            return false
+          }
+          for (const routeKey of routeKeys) {
+            registeredRoutes.add(routeKey)
+          }
+          return true
+        }
+        // Duplicates are detected per method: `get+head-users.ts` still
+        // registers HEAD when another file already serves GET.
+        const claimedMethods = fileMethods?.filter(claimRoute)
+        if (claimedMethods) {
+          if (claimedMethods.length === 0) continue
+        } else {
+          // A route module's methods are only known after import, so its path is
+          // claimed up front — two `route.ts` files for one URL are a duplicate.
+          const modulePathKey = normalizeParamNames(routePaths[routePaths.length - 1])
+          if (routeModulePaths.has(modulePathKey)) {
+            reportFile('AR_DUPLICATE_ROUTE_MODULE', msg.skipFile, filePath, msg.duplicateRouteModule(modulePathKey))
+            continue
+          }
+          routeModulePaths.add(modulePathKey)
+        }
 
-            const authResult = resolveAuth({
-              routePath,
-              method,
-              routeMeta,
-              defaultRequiresAuth,
-              forcePublic,
-              forceProtected,
-              prefix,
-            })
+        // Directory `_meta` keys are defaults; the route's own meta wins.
+        const mergeMeta = (inheritedMeta: RouteMeta | undefined, routeMeta: RouteMeta | undefined): RouteMeta | undefined => {
+          const effectiveMeta = inheritedMeta ? { ...inheritedMeta, ...routeMeta } : routeMeta
+          // Group tags are appended after the route's own tags, without duplicates.
+          const inheritedTags = groups.flatMap(group => groupTags?.[group] ?? [])
+          if (inheritedTags.length === 0) return effectiveMeta
+          const ownTags = Array.isArray(effectiveMeta?.tags) ? effectiveMeta.tags : []
+          return { ...effectiveMeta, tags: [...new Set([...ownTags, ...inheritedTags])] }
+        }
+        const authFor = (routeMethod: string, routePath: string, routeMeta: RouteMeta | undefined, inheritedMeta: RouteMeta | undefined) =>
+          resolveAuth({
+            routePath,
+            method: routeMethod,
+            routeMeta,
+            inheritedMeta,
+            defaultRequiresAuth,
+            forcePublic,
+            forceProtected,
+            prefix,
+            groups,
+            methods,
+          })
+
+        /**
+         * Add the route's paths to `scannedRoutes`. A lazy route passes its
+         * importing handler, and takes its meta and auth from `routeManifest`.
+         */
+        const register = async (routeMethod: string, { handler, routeMeta, middlewares }: ResolvedRouteExport, fromManifest = false) => {
+          const inheritedMeta = await directoryMeta
+          // Directory middlewares run root to leaf, before createHandler middlewares.
+          const routeMiddlewares = [...await directoryMiddlewares, ...(middlewares ?? [])]
+          const effectiveMeta = mergeMeta(inheritedMeta, routeMeta)
+
+          for (const constrainedPath of routePaths) {
+            // `$routes`, logs and force patterns use the plain `:name` form;
+            // the `(regex)` constraint is only kept for registration on request.
+            const routePath = stripParamConstraints(constrainedPath)
+            const authResult = authFor(routeMethod, routePath, routeMeta, inheritedMeta)
 
             tracker.addMatch(authResult.matchedPublicPattern, authResult.matchedProtectedPattern)
 
@@ -239,28 +620,112 @@ export async function loadRoutes(
             }
 
             const requiresAuth = authResult.requiresAuth
-            const authMark = requiresAuth ? ' 🔒' : ''
-            routeLogLines.push({
-              path: routePath,
-              method: method.toUpperCase(),
-              line: `✅ ${method.toUpperCase().padEnd(7)} ${routePath}${authMark}`,
-            })
-
-            const routeInfo: RouteInfo = { method: method.toUpperCase(), path: routePath, requiresAuth }
-            if (routeMeta) {
-              routeInfo.meta = routeMeta
+            const registeredPath = inlineParamRegex ? inlineRestParam(constrainedPath) : routePath
+            const routeInfo: RouteInfo = { method: routeMethod.toUpperCase(), path: routePath, requiresAuth }
+            if (effectiveMeta) {
+              routeInfo.meta = effectiveMeta
+            }
+            // The short variant of an optional `[[page:int]]` has no `page` to type.
+            const presentParamTypes = Object.entries(routeParamTypes).filter(
+              ([name]) => routePath.split('/').includes(`:${name}`)
+            )
+            if (presentParamTypes.length > 0) {
+              routeInfo.paramTypes = Object.fromEntries(presentParamTypes)
+            }
+            if (groups.length > 0) {
+              routeInfo.groups = groups
+            }
+            const scannedRoute: ScannedRoute = {
+              method: routeMethod,
+              path: constrainedPath,
+              registeredPath,
+              routeInfo,
+              handlers: [...routeMiddlewares, handler],
+              filePath,
+            }
+            if (fromManifest) {
+              const entry = routeManifest!.get(`${routeInfo.method} ${routePath}`)!
+              routeInfo.requiresAuth = entry.requiresAuth
+              if (entry.meta) routeInfo.meta = entry.meta
+            }
+            scannedRoutes.push(scannedRoute)
+          }
+        }
+
+        // A lazy file needs every route it serves in the manifest; one the
+        // manifest lacks (built before the file changed) is imported now.
+        const listed = lazy && claimedMethods?.every(method =>
+          routePaths.every(routePath => routeManifest?.has(`${method.toUpperCase()} ${stripParamConstraints(routePath)}`))
+        )
+        if (lazy && claimedMethods && !listed) {
+          report(
+            { code: 'AR_LAZY_ROUTE_UNLISTED', severity: 'warn', file: filePath, message: msg.lazyRouteUnlisted },
+            [`⚠️  ${msg.warning}: ${filePath}`, `   ⚠️  ${msg.lazyRouteUnlisted}`]
+          )
+        }
+        if (lazy && claimedMethods && listed) {
+          // Imported on the first request to any of the file's routes, once
+          let loading: Promise<ResolvedRouteExport | undefined> | undefined
+          const loadExport = () => (loading ??= import(moduleUrl(filePath)).then(
+            module => resolveDefaultExport(module, filePath),
+            (err: unknown) => {
+              reportFile('AR_IMPORT_FAILED', msg.failedToLoad, filePath, err instanceof Error ? err.message : String(err))
+              return undefined
+            }
+          ))
+          const handler = createLazyHandler(loadExport, filePath, locale)
+          importPromises.push((async () => {
+            for (const method of claimedMethods) {
+              await register(method, { handler }, true)
             }
-            app.$routes!.all.push(routeInfo)
-            if (requiresAuth) {
-              app.$routes!.protectedRoutes.push({ method: method.toUpperCase(), path: routePath })
-            } else {
-              app.$routes!.publicRoutes.push({ method: method.toUpperCase(), path: routePath })
+          })())
+          continue
+        }
+
+        const importPromise = (async () => {
+          try {
+            const module = await import(moduleUrl(filePath))
+
+            if (claimedMethods) {
+              const resolved = resolveDefaultExport(module, filePath)
+              if (resolved) {
+                for (const method of claimedMethods) {
+                  await register(method, resolved)
+                }
+              }
+              return
             }
 
-            (app as Record<string, Function>)[method](routePath, ...(middlewares ?? []), handler)
+            const moduleExports = classifyModuleExports(Object.keys(module), methods)
+            if (moduleExports.hasDefault) {
+              reportFile('AR_MODULE_DEFAULT_EXPORT', msg.failedToLoad, filePath, msg.moduleDefaultExport, correctWays())
+              return
+            }
+            if (moduleExports.unknown.length > 0) {
+              const exportMethods = [...methods, ALL_METHODS_PREFIX].map(method => method.toUpperCase())
+              reportFile('AR_UNKNOWN_MODULE_EXPORTS', msg.failedToLoad, filePath, msg.unknownModuleExports(exportMethods.join(', ')), [
+                `   ❌ ${msg.detectedOtherExports(moduleExports.unknown.join(', '))}`,
+              ])
+              return
+            }
+            if (moduleExports.methods.length === 0) {
+              report(
+                { code: 'AR_EMPTY_ROUTE_MODULE', severity: 'warn', file: filePath, message: msg.emptyRouteModule },
+                [`⚠️  ${msg.emptyRouteModule}: ${filePath}`]
+              )
+              return
+            }
+
+            // Register in method-set order so the log and registry are stable.
+            for (const exportName of moduleExports.methods) {
+              const routeMethod = exportName.toLowerCase()
+              const resolved = resolveRouteExport(module[exportName], exportName, filePath)
+              if (resolved && claimRoute(routeMethod)) {
+                await register(routeMethod, resolved)
+              }
+            }
           } catch (err: unknown) {
-            log('error', `❌ Failed to load route: ${filePath}`)
-            log('error', `   ❌ ${err instanceof Error ? err.message : String(err)}`)
+            reportFile('AR_IMPORT_FAILED', msg.failedToLoad, filePath, err instanceof Error ? err.message : String(err))
           }
         })()
 
@@ -269,31 +734,197 @@ export async function loadRoutes(
     }
   }
 
-  log('info', `🔄 Scanning controller directory: ${dir}`)
+  log('info', `🔄 ${msg.scanning(dir)}`)
   const fullDir = resolve(dir)
   try {
     scanDirectory(fullDir)
   } catch (err: unknown) {
-    log('error', `❌ Failed to scan directory: ${fullDir}`)
-    log('error', `   ❌ ${err instanceof Error ? err.message : String(err)}`)
+    reportFile('AR_SCAN_FAILED', msg.failedToScan, fullDir, err instanceof Error ? err.message : String(err))
     return
   }
 
   await Promise.all(importPromises)
 
-  routeLogLines.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
-  for (const { line } of routeLogLines) {
-    log('info', line)
+  tracker.logWarnings(report, forcePublic, forceProtected, locale)
+
+  // Register in specificity order rather than import-completion order —
+  // first-match frameworks such as Express dispatch to the first route added.
+  scannedRoutes.sort(compareRoutes)
+  if (!paramNameConsistency) return scannedRoutes
+  const candidates = scannedRoutes.map(route => ({ method: route.routeInfo.method, path: route.path, file: route.filePath, route }))
+  const rejected = new Set([...checkParamNames(candidates, paramNameConsistency, report, locale)].map(({ route }) => route))
+  // A skipped route gives its duplicate-detection key back, so a later config
+  // naming the param consistently can still serve the URL
+  for (const route of rejected) {
+    registeredRoutes.delete(`${route.routeInfo.method} ${normalizeParamNames(route.path)}`)
+  }
+  return scannedRoutes.filter(route => !rejected.has(route))
+}
+
+/**
+ * Register one scanned route on `app` under `handlers`, with its
+ * trailing-slash alias. A method the app lacks (reported once per file and
+ * method, tracked in `unsupported`) or a route the app rejects is reported,
+ * and false returned.
+ */
+export function registerScannedRoute(
+  app: AppLike,
+  { method, path, registeredPath, routeInfo, filePath }: ScannedRoute,
+  handlers: Function[],
+  { trailingSlash, inlineParamRegex, locale }: LoadRoutesOptions,
+  report: ReportFn,
+  unsupported: Set<string>
+): boolean {
+  const msg = getMessages(locale)
+  if (typeof app[method] !== 'function') {
+    if (!unsupported.has(`${method} ${filePath}`)) {
+      unsupported.add(`${method} ${filePath}`)
+      const message = msg.unsupportedMethod(method)
+      report(
+        { code: 'AR_UNSUPPORTED_METHOD', severity: 'error', file: filePath, route: `${routeInfo.method} ${routeInfo.path}`, message },
+        [`❌ ${msg.failedToRegister}: ${filePath}`, `   ❌ ${message}`]
+      )
+    }
+    return false
+  }
+  const restParam = /\/(\*([A-Za-z0-9_]+))$/.exec(path)
+  // Express 4 (the only Express with app.del) would register `*name` as a misrouting wildcard
+  if (restParam && !inlineParamRegex && typeof app.del === 'function') {
+    const message = msg.unsupportedRestParam(restParam[1], restParam[2])
+    report(
+      { code: 'AR_UNSUPPORTED_REST_PARAM', severity: 'error', file: filePath, route: `${routeInfo.method} ${routeInfo.path}`, message },
+      [`❌ ${msg.failedToRegister}: ${filePath}`, `   ❌ ${message}`]
+    )
+    return false
+  }
+  try {
+    // A rest param already spans the rest of the path, slash included
+    const slashPath = registeredPath !== '/' && !restParam ? `${registeredPath}/` : undefined
+    // ...so its `/path/` requests are told apart in the handler
+    const routeHandlers = restParam && (trailingSlash === 'strict' || trailingSlash === 'redirect')
+      ? [withRestTrailingSlash(handlers, trailingSlash)]
+      : handlers
+    // Ahead of the route: a non-strict router would serve `/path/` from it
+    if (slashPath && trailingSlash === 'redirect') {
+      (app as Record<string, Function>)[method](slashPath, redirectWithoutTrailingSlash)
+    }
+    (app as Record<string, Function>)[method](registeredPath, ...routeHandlers)
+    if (slashPath && trailingSlash === 'ignore') {
+      (app as Record<string, Function>)[method](slashPath, ...handlers)
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    report(
+      { code: 'AR_REGISTER_FAILED', severity: 'error', file: filePath, route: `${routeInfo.method} ${routeInfo.path}`, message },
+      [`❌ ${msg.failedToRegister}: ${filePath}`, `   ❌ ${message}`]
+    )
+    return false
   }
+  return true
+}
 
-  tracker.logWarnings(log, forcePublic, forceProtected)
+/**
+ * A scanned route as the framework matches it, for the overlap analysis: a
+ * typed param's regex only constrains the route when `inlineParamRegex`
+ * registers it, so `/api/:id(\d+)` otherwise matches like `/api/:id`.
+ */
+export function registeredPattern({ routeInfo, path, registeredPath, filePath }: ScannedRoute, inlineParamRegex: boolean): RegisteredRoute {
+  return { method: routeInfo.method, path: inlineParamRegex ? path : registeredPath, file: filePath }
+}
 
-  log('info', `📋 Registered routes:`)
-  if (app.$routes!.all.length === 0) {
-    log('warn', `⚠️  No routes registered!`)
+/** Add a registered route to `app.$routes`, under `protectedRoutes` or `publicRoutes` by its auth. */
+export function addToRoutesRegistry(app: AppLike, routeInfo: RouteInfo): void {
+  app.$routes!.all.push(routeInfo)
+  const entry = { method: routeInfo.method, path: routeInfo.path }
+  if (routeInfo.requiresAuth) {
+    app.$routes!.protectedRoutes.push(entry)
   } else {
-    log('info', `   Total: ${app.$routes!.all.length}`)
-    log('info', `   Public: ${app.$routes!.publicRoutes.length}`)
-    log('info', `   Protected: ${app.$routes!.protectedRoutes.length}`)
+    app.$routes!.publicRoutes.push(entry)
+  }
+}
+
+/**
+ * Register the routes of `scanControllerRoutes` on `app` — with trailing-slash
+ * aliases, the `$routes` registry and the overlap analysis — and log them.
+ * With a `hot` table (watch mode) each route is registered as its dispatcher
+ * and recorded in the table. Resolves to the error diagnostics, one per
+ * skipped file or route.
+ */
+export async function loadRoutes(
+  app: AppLike,
+  options: LoadRoutesOptions,
+  hot?: HotRouteTable
+): Promise<RouteDiagnostic[]> {
+  const { locale } = options
+  const msg = getMessages(locale)
+  if (options.trailingSlash === 'strict' && isNonStrictExpressRouter(app)) {
+    throw new Error(msg.strictRoutingRequired)
   }
-}
\ No newline at end of file
+  const log = createLogger(options)
+  const problems: RouteDiagnostic[] = []
+  const report = collectErrors(createReporter(log, options.onDiagnostic, options.logFormat), problems)
+
+  if (!app.$routes) {
+    app.$routes = {
+      publicRoutes: [],
+      protectedRoutes: [],
+      all: [],
+    }
+  }
+
+  if (!app.$registeredRoutes) {
+    app.$registeredRoutes = new Set<string>()
+  }
+
+  const claimedBefore = new Set(app.$registeredRoutes)
+  const scannedRoutes = await scanControllerRoutes(options, app.$registeredRoutes, log, report)
+  if (hot) {
+    hot.routeKeys = new Set([...app.$registeredRoutes].filter(routeKey => !claimedBefore.has(routeKey)))
+  }
+  if (!scannedRoutes) return problems
+
+  const routeLogLines: Array<{ path: string; method: string; line: string; fields: LogFields }> = []
+  const registered: RegisteredRoute[] = []
+  // Files whose method the app lacks, reported once per file and method
+  const unsupported = new Set<string>()
+  for (const route of scannedRoutes) {
+    const { path, routeInfo, filePath } = route
+    let handlers = route.handlers
+    if (hot) {
+      const key = hotRouteKey(route)
+      hot.chains.set(key, route.handlers)
+      handlers = [createDispatcher(hot, key)]
+    }
+    if (!registerScannedRoute(app, route, handlers, options, report, unsupported)) {
+      hot?.chains.delete(hotRouteKey(route))
+      continue
+    }
+    hot?.routes.set(hotRouteKey(route), route)
+    registered.push(registeredPattern(route, options.inlineParamRegex))
+    addToRoutesRegistry(app, routeInfo)
+    routeLogLines.push({
+      path: routeInfo.path,
+      method: routeInfo.method,
+      line: `✅ ${routeInfo.method.padEnd(7)} ${routeInfo.path}${routeInfo.requiresAuth ? ' 🔒' : ''}`,
+      fields: { method: routeInfo.method, path: routeInfo.path, file: filePath, requiresAuth: routeInfo.requiresAuth },
+    })
+  }
+  recordRouteOverlaps(app, registered, report, locale)
+
+  routeLogLines.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
+  for (const { line, fields } of routeLogLines) {
+    log('info', line, fields)
+  }
+
+  const { all, publicRoutes, protectedRoutes } = app.$routes!
+  log('info', `📋 ${msg.registeredRoutes}`, { total: all.length, publicRoutes: publicRoutes.length, protectedRoutes: protectedRoutes.length })
+  if (all.length === 0) {
+    report({ code: 'AR_NO_ROUTES', severity: 'warn', message: msg.noRoutes }, [`⚠️  ${msg.noRoutesWarning}`])
+  } else {
+    log('info', `   ${msg.total(all.length)}`)
+    log('info', `   ${msg.publicCount(publicRoutes.length)}`)
+    log('info', `   ${msg.protectedCount(protectedRoutes.length)}`)
+  }
+
+  return problems
+}
@@ -0,0 +1,103 @@
+/**
+ * Log sinks shared by the routers and the manifest CLI: a level threshold
+ * (`logLevel`) and a line format (`logFormat`) applied before a line reaches
+ * `onLog` or the console.
+ */
+import type { DiagnosticCode } from './diagnostics'
+import { getMessages, type Locale } from './messages'
+
+/** Level of one log line, most severe first. */
+export type LogEventLevel = 'error' | 'warn' | 'info' | 'debug'
+
+/** Lowest level that is logged; `'silent'` logs nothing. */
+export type LogLevel = 'silent' | LogEventLevel
+
+/**
+ * Levels `onLog` receives under a `logLevel` of `TLogLevel`: `'debug'` only
+ * when debug lines can be logged, so a callback written for `'info' | 'warn'
+ * | 'error'` still fits every other config.
+ */
+export type OnLogLevel<TLogLevel extends LogLevel = LogLevel> = 'debug' extends TLogLevel ? LogEventLevel : Exclude<LogEventLevel, 'debug'>
+
+/** `'pretty'`: emoji-prefixed text; `'json'`: one JSON object per line. */
+export type LogFormat = 'pretty' | 'json'
+
+/** Structured fields of a log line, written as JSON keys by `logFormat: 'json'`. */
+export interface LogFields {
+  method?: string
+  path?: string
+  file?: string
+  requiresAuth?: boolean
+  code?: DiagnosticCode
+  route?: string
+  pattern?: string
+  total?: number
+  publicRoutes?: number
+  protectedRoutes?: number
+  /** What a watch-mode reload did to the route */
+  change?: 'added' | 'removed' | 'reloaded'
+}
+
+export type LogFn = (level: LogEventLevel, message: string, fields?: LogFields) => void
+
+const LOG_LEVELS: readonly LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug']
+
+/** Validate the `logLevel` option at router creation (default: `'info'`). */
+export function resolveLogLevel(logLevel?: LogLevel, locale?: Locale): LogLevel {
+  if (logLevel === undefined) return 'info'
+  if (LOG_LEVELS.includes(logLevel)) return logLevel
+  throw new Error(getMessages(locale).invalidLogLevel(String(logLevel)))
+}
+
+/** Validate the `logFormat` option at router creation (default: `'pretty'`). */
+export function resolveLogFormat(logFormat?: LogFormat, locale?: Locale): LogFormat {
+  if (logFormat === undefined || logFormat === 'pretty' || logFormat === 'json') return logFormat ?? 'pretty'
+  throw new Error(getMessages(locale).invalidLogFormat(String(logFormat)))
+}
+
+/** A pretty line without its emoji markers and column padding, e.g. `✅ GET     /a 🔒` → `GET /a`. */
+function plainText(line: string): string {
+  return line.replace(/\p{Extended_Pictographic}\uFE0F?/gu, '').replace(/\s+/g, ' ').trim()
+}
+
+export interface LoggerOptions {
+  logLevel: LogLevel
+  logFormat: LogFormat
+  /** `false` keeps lines off the console; `onLog` still receives them. */
+  logging: boolean
+  onLog?: (level: LogEventLevel, message: string) => void
+}
+
+/**
+ * Send lines at or above `logLevel` to `onLog`, or else to the console at
+ * their level — as written, or as `{ level, message, ...fields }` JSON.
+ */
+export function createLogger({ logLevel, logFormat, logging, onLog }: LoggerOptions): LogFn {
+  const threshold = LOG_LEVELS.indexOf(logLevel)
+  return (level, message, fields) => {
+    if (LOG_LEVELS.indexOf(level) > threshold) return
+    const line = logFormat === 'json' ? JSON.stringify({ level, message: plainText(message), ...fields }) : message
+
+    if (onLog) {
+      onLog(level, line)
+      return
+    }
+
+    if (!logging) return
+
+    switch (level) {
+      case 'debug':
+        console.debug(line)
+        break
+      case 'info':
+        console.log(line)
+        break
+      case 'warn':
+        console.warn(line)
+        break
+      case 'error':
+        console.error(line)
+        break
+    }
+  }
+}
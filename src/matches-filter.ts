@@ -4,20 +4,22 @@
  * Pattern formats:
  * - Path only (matches all methods): '/api/users', '/api/admin/*'
  * - Method + path (matches specific method): 'GET /api/users', 'POST /api/auth/login'
+ *   (the method must be in the configured method set, or `ALL` for `all-` routes)
+ * - Route group (matches every route under a `(name)` directory): '(admin)', 'GET (admin)'
  *
  * Path matching rules:
  * - Exact match (with or without prefix): '/users' matches '/api/users'
  * - Wildcard suffix: '/api/admin/*' matches '/api/admin/foo' and '/api/admin/foo/bar' but NOT '/api/admin' itself
  */
-import { HTTP_METHODS } from './constants'
-
-export const HTTP_METHODS_UPPER = HTTP_METHODS.map(m => m.toUpperCase()) as readonly string[]
+import { HTTP_METHODS, ALL_METHODS_PREFIX } from './constants'
 
 export function matchesFilter(
   routePath: string,
   routeMethod: string,
   pattern: string,
-  prefix?: string
+  prefix?: string,
+  groups?: readonly string[],
+  methods: readonly string[] = HTTP_METHODS
 ): boolean {
   let patternMethod: string | undefined
   let pathPattern = pattern
@@ -25,7 +27,8 @@ export function matchesFilter(
   const spaceIndex = pattern.indexOf(' ')
   if (spaceIndex !== -1) {
     const maybeMethod = pattern.slice(0, spaceIndex).toUpperCase()
-    if (HTTP_METHODS_UPPER.includes(maybeMethod)) {
+    const maybeMethodLower = maybeMethod.toLowerCase()
+    if (maybeMethodLower === ALL_METHODS_PREFIX || methods.includes(maybeMethodLower)) {
       patternMethod = maybeMethod
       pathPattern = pattern.slice(spaceIndex + 1)
     }
@@ -35,6 +38,11 @@ export function matchesFilter(
     return false
   }
 
+  const groupMatch = pathPattern.match(/^\((.+)\)$/)
+  if (groupMatch) {
+    return groups?.includes(groupMatch[1]) ?? false
+  }
+
   const isWildcard = pathPattern.endsWith('/*')
   const basePattern = isWildcard ? pathPattern.slice(0, -2) : pathPattern
 
@@ -0,0 +1,379 @@
+/**
+ * Message catalog for every validation error and log line the routers, the
+ * manifest generator and its CLI emit. Entries hold the text only — emoji
+ * prefixes and indentation are added where a line is logged — and
+ * diagnostic codes stay the same in every locale.
+ */
+import { ALL_METHODS_PREFIX } from './constants'
+
+/** Language of validation errors and log lines. */
+export type Locale = 'en' | 'zh-CN'
+
+const LOCALES: readonly Locale[] = ['en', 'zh-CN']
+
+/** `"a", "b" or "c"` */
+function orList(values: readonly string[]): string {
+  const quoted = values.map(value => `"${value}"`)
+  return quoted.length < 2 ? quoted.join('') : `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+}
+
+/** `"a"、"b" 或 "c"` */
+function orListZh(values: readonly string[]): string {
+  const quoted = values.map(value => `"${value}"`)
+  return quoted.length < 2 ? quoted.join('') : `${quoted.slice(0, -1).join('、')} 或 ${quoted[quoted.length - 1]}`
+}
+
+const en = {
+  // Options, checked at router creation (resolveParamTypes, resolveMethods, ...)
+  invalidParamTypeName: (name: string) =>
+    `Invalid param type name "${name}": must start with a letter and contain only ASCII letters, digits and underscore`,
+  emptyParamType: (name: string) => `Invalid param type "${name}": expected a non-empty regex string or RegExp`,
+  paramTypeSlash: (name: string) => `Invalid param type "${name}": pattern must not contain "/" — a param matches a single path segment`,
+  invalidParamTypeRegex: (name: string, reason: string) => `Invalid param type "${name}": ${reason}`,
+  invalidPathCase: (value: string) => `Invalid pathCase "${value}": expected 'preserve', 'kebab', 'snake' or a function`,
+  invalidPathCaseResult: (result: string, text: string) =>
+    `Invalid pathCase result ${result} for "${text}": static text must be non-empty and must not contain "/", ":", "*", "?", brackets or parentheses`,
+  invalidMethodName: (method: string) => `Invalid HTTP method "${method}": method names may only contain ASCII letters and digits`,
+  noMethods: 'Invalid methods option: at least one HTTP method is required',
+  invalidParseFileName: (value: string) => `Invalid parseFileName "${value}": expected 'method-name', 'name.method', 'next' or a function`,
+  invalidTrailingSlash: (value: string, policies: string) => `Invalid trailingSlash "${value}": expected ${policies}`,
+  strictRoutingRequired: `trailingSlash: 'strict' needs Express strict routing: app.enable('strict routing') or express.Router({ strict: true })`,
+  invalidParamNameConsistency: (value: string) => `Invalid paramNameConsistency "${value}": expected 'warn' or 'error'`,
+  invalidOnError: (value: string) => `Invalid onError "${value}": expected 'log' or 'throw'`,
+  invalidLogLevel: (value: string) => `Invalid logLevel "${value}": expected 'silent', 'error', 'warn', 'info' or 'debug'`,
+  invalidLogFormat: (value: string) => `Invalid logFormat "${value}": expected 'pretty' or 'json'`,
+  lazyWithoutManifest: 'Invalid lazy: true: expected a routeManifest (the routes of scanRoutes())',
+  lazyModuleConvention: `Invalid lazy: true: expected convention 'file', not 'module'`,
+  lazyWithWatch: 'Invalid lazy: true: cannot be combined with watch: true',
+  invalidRouteManifest: 'Invalid routeManifest: expected the routes array of scanRoutes()',
+
+  // File names (validateFileName, parseFileName)
+  methodPrefixCase: (used: string, example: string) => `File name uses "${used}" — HTTP method prefix must be lowercase, e.g. "${example}"`,
+  unknownMethod: (method: string, source: string, methods: string) => `Unknown HTTP method "${method}" in "${source}" (${methods})`,
+  combinedAllMethod: (source: string) => `"${ALL_METHODS_PREFIX}" already matches every method and cannot be combined with others in "${source}"`,
+  repeatedMethod: (method: string, source: string) => `HTTP method "${method}" is listed twice in "${source}"`,
+  invalidFileName: (methods: string) => `File name must be a valid HTTP method or start with method- (${methods})`,
+  unconventionalFileName: (fileName: string) => `File name "${fileName}" does not follow the parseFileName convention`,
+  noMethod: (fileName: string) => `No HTTP method in "${fileName}"`,
+
+  // Route names and directory segments (validateRouteName, validateDirectorySegment)
+  directoryContext: (segment: string) => `directory "${segment}"`,
+  invalidParamName: (name: string, context: string) => `Invalid parameter name "${name}" in ${context}: only ASCII letters, digits and underscore allowed`,
+  typedRestParam: (raw: string, context: string) => `Invalid parameter "${raw}" in ${context}: rest parameters cannot have a type`,
+  unknownParamType: (type: string, context: string, types: string) =>
+    `Unknown parameter type "${type}" in ${context}: expected one of ${types} (register custom types via paramTypes)`,
+  invalidEscape: (context: string) =>
+    `Invalid escape in ${context}: "%" must start a %XX escape with two hex digits, e.g. %2D for a literal "-" (%25 for "%")`,
+  paramNotWholeSegment: (kind: 'rest' | 'typed', raw: string, context: string, segment: string) =>
+    `Invalid ${kind} parameter "${raw}" in ${context}: ${kind} parameters must span a whole segment, not "${segment}"`,
+  emptyParam: 'Empty parameters not allowed [], use [id] instead of []',
+  dashBoundary: (rawName: string) => `Invalid route name "${rawName}": must not start or end with "-" — use [id] for a dynamic segment`,
+  paramSeparator: (context: string) =>
+    `Invalid parameter syntax in ${context}: static text after a param must start with "." or "~", e.g. [name].json`,
+  paramAlternation: (context: string) => `Invalid parameter syntax in ${context}: params ([id]) and static text must alternate, joined by "-"`,
+  paramNotLast: (kind: 'optional' | 'rest', raw: string, context: string) =>
+    `Invalid ${kind} parameter "${raw}" in ${context}: ${kind} parameters must be the last segment`,
+  directoryParamSpaces: (context: string) => `Invalid parameter syntax in ${context}: a parameter must be a single [id] segment without spaces`,
+  directoryParamShape: (context: string) =>
+    `Invalid parameter syntax in ${context}: a parameter must be a single [id] segment or glued to static text, e.g. v[version]`,
+  invalidGroup: (segment: string) => `Invalid route group "${segment}": group names may only contain ASCII letters, digits, "_" and "-"`,
+  restNotLast: (name: string, routePath: string) => `Invalid rest parameter "[...${name}]" in "${routePath}": a rest parameter must be the last segment`,
+  repeatedParam: (name: string, routePath: string) =>
+    `Repeated parameter "${name}" in "${routePath}": each param name must be unique within a route, or one value is lost from ctx.params`,
+
+  // Ignore patterns (compileIgnorePatterns)
+  ignoreEntry: (index: number) => `Invalid ignore entry at index ${index}: expected a string, RegExp, or { pattern, type } object`,
+  ignoreEntryPattern: (index: number) => `Invalid ignore entry at index ${index}: "pattern" must be a string or RegExp`,
+  ignoreType: (index: number, target: string) => `Invalid ignore type at index ${index}: "${target}" — expected "file", "dir" or "both"`,
+  ignorePattern: (index: number, source: string, reason: string) => `Invalid ignore pattern at index ${index} ("${source}"): ${reason}`,
+
+  // Headlines of skipped and failed entries
+  warning: 'Warning',
+  skipFile: 'Skip file',
+  skipDirectory: 'Skip directory',
+  skipMethodRoute: (method: string) => `Skip ${method} route`,
+  skipRoute: (route: string) => `Skip route ${route}`,
+  statFailed: 'Skip entry (stat failed)',
+  scanFailed: 'Skip directory (scan failed)',
+  failedToScan: 'Failed to scan directory',
+  failedToLoad: 'Failed to load route',
+  failedToRegister: 'Failed to register route',
+  invalidDirectoryMeta: 'Invalid directory meta',
+  failedDirectoryMeta: 'Failed to load directory meta',
+  invalidDirectoryMiddleware: 'Invalid directory middleware',
+  failedDirectoryMiddleware: 'Failed to load directory middleware',
+  ignored: 'Ignored',
+
+  // Route files and exports (loadRoutes)
+  scanning: (dir: string) => `Scanning controller directory: ${dir}`,
+  methodDirectory: (name: string) => `Directory name "${name}" is an HTTP method keyword, consider renaming`,
+  defaultExport: 'Default export',
+  namedExport: (name: string) => `Export "${name}"`,
+  falsyExport: (subject: string, value: string) => `${subject} is a falsy non-null value (${value}), expected a function or createHandler result`,
+  strictExport: 'In strict mode, only functions or createHandler results are allowed',
+  currentExportType: (type: string) => `Current export type: ${type}`,
+  currentNamedExportType: (name: string, type: string) => `Current type of export "${name}": ${type}`,
+  correctWays: 'Correct ways:',
+  notSupported: (example: string) => `Not supported: ${example}`,
+  tipFileConvention: `Tip: default exports belong to method-named files (get-users.ts) with convention: 'file'`,
+  tipModuleConvention: `Tip: for export const GET / POST in route.ts files, use convention: 'module'`,
+  tipStrict: 'Tip: You can set strict: false to disable strict checking',
+  looseExport: 'Detected non-recommended export method (non-strict mode)',
+  missingHandler: 'Exported object must contain handler function',
+  unsupportedExport: (type: string) => `Unsupported export type: ${type}`,
+  invalidMetaExport: '_meta must default-export a RouteMeta object, e.g. export default { requiresAuth: true }',
+  invalidMiddlewareExport: '_middleware must default-export a middleware function or an array of middleware functions',
+  nonStrict: (message: string) => `${message} (non-strict mode)`,
+  duplicateRoute: (key: string) => `Duplicate route: ${key}`,
+  duplicateRouteModule: (key: string) => `Duplicate route module: ${key}`,
+  namedExports: 'File can only have default export, named exports are not allowed',
+  detectedNamedExports: (names: string) => `Detected named exports: ${names}`,
+  tipNamedExports: `Tip: To export one handler per HTTP method (export const GET = ...), use convention: 'module' with route.ts files`,
+  moduleDefaultExport: `With convention: 'module', route.ts files export one handler per HTTP method, a default export is not allowed`,
+  unknownModuleExports: (methods: string) => `Route modules can only export uppercase HTTP methods (${methods})`,
+  detectedOtherExports: (names: string) => `Detected other exports: ${names}`,
+  emptyRouteModule: 'Route module exports no HTTP method handlers',
+  unsupportedMethod: (method: string) =>
+    `The app has no ${method}() method, so ${method === ALL_METHODS_PREFIX ? 'catch-all' : method.toUpperCase()} routes cannot be registered`,
+  unsupportedRestParam: (rest: string, name: string) =>
+    `Express 4 reads "${rest}" as a bare wildcard and would misroute this rest param; set inlineParamRegex: true to register ":${name}(.+)"`,
+
+  // Static routes (staticAutoRouter)
+  loadingStatic: (count: number) => `Loading ${count} static routes`,
+  staticUnsupportedMethod: (method: string) => `the app has no ${method}() method to register ${method.toUpperCase()} routes`,
+  staticBracketPath: `use Express-style :param (e.g. '/users/:id') — file-name [param] syntax is not valid in static routes`,
+  staticPathCaseFailed: (routePath: string, reason: string) => `Cannot check pathCase for ${routePath}: ${reason}`,
+  staticPathCaseMismatch: (routePath: string, expected: string) => `Static route ${routePath} does not follow the pathCase option — expected ${expected}`,
+  nullHandler: 'handler is null/undefined',
+  invalidHandler: 'invalid handler type (expected function or createHandler result)',
+  duplicateRouteSkipped: (key: string) => `Duplicate route: ${key} — skipped`,
+
+  // Registration summary
+  registeredRoutes: 'Registered routes:',
+  noRoutes: 'No routes registered',
+  noRoutesWarning: 'No routes registered!',
+  total: (count: number) => `Total: ${count}`,
+  publicCount: (count: number) => `Public: ${count}`,
+  protectedCount: (count: number) => `Protected: ${count}`,
+
+  // Watch mode
+  watching: (dir: string) => `Watching ${dir} for changes`,
+  watchFailed: 'Failed to watch',
+  routesReloaded: (dir: string) => `Routes reloaded from ${dir}:`,
+  noRouteChanges: (dir: string) => `No route changes in ${dir}`,
+  routeAddedOutOfOrder: (first: string, second: string) => `Route added out of order: ${first} takes URLs of ${second} until a restart`,
+  routeAddedOutOfOrderDetail: (loser: string) => `${loser} was registered by a reload, after the existing routes; a restart registers it in specificity order`,
+
+  // Lazy routes
+  lazyLoadFailed: (file: string) => `Route module failed to load: ${file}`,
+  lazyRouteUnlisted: 'not in routeManifest — imported at startup; regenerate the manifest',
+
+  // forcePublic / forceProtected (ForcePatternTracker)
+  forcePatternConflict: (route: string, publicPattern: string, protectedPattern: string) =>
+    `Route "${route}" matched both forcePublic ("${publicPattern}") and forceProtected ("${protectedPattern}") — forceProtected wins`,
+  forcePatternOverridden: (type: string, pattern: string, route: string) =>
+    `${type} pattern "${pattern}" matched "${route}" but has no effect — route has explicit createHandler meta`,
+  forcePatternUnmatched: (type: string, pattern: string) =>
+    `${type} pattern "${pattern}" did not match any registered route (check for typos or outdated config)`,
+
+  // Route overlaps and param names
+  ambiguousRoutes: (first: string, second: string) => `Ambiguous routes: ${first} and ${second} match the same URLs`,
+  ambiguousDetail: (winner: string, loser: string) => `${winner} is registered first and handles them, not ${loser}`,
+  shadowedRoute: (first: string, second: string) => `Unreachable route: ${second} is shadowed by ${first}`,
+  shadowedDetail: (winner: string, loser: string) => `${winner} is registered first and matches every URL of ${loser}`,
+  overlappingRoutes: (first: string, second: string) => `Overlapping routes: ${first} takes some URLs of ${second}`,
+  overlappingDetail: (winner: string, loser: string) => `${winner} is registered first, so those requests never reach ${loser}`,
+  listedFirst: (winner: string) => `${winner} is listed first`,
+  listedFirstShadowing: (winner: string, loser: string) => `${winner} is listed first and matches every URL of ${loser}`,
+  inconsistentParamName: (name: string, route: string, source: string, expected: string) =>
+    `Inconsistent param name :${name} in ${route} — ${source} names this segment :${expected}`,
+
+  // onError: 'throw' and the manifest CLI
+  routeErrors: (source: string, count: number) => `${source} found ${count} route error${count === 1 ? '' : 's'}:`,
+  duplicateRouteSkippedManifest: (key: string) => `Duplicate route skipped: ${key}`,
+  generated: (outputPath: string) => `Generated: ${outputPath}`,
+  error: 'Error',
+  usage: 'Usage',
+  cliChoices: (flag: string, values: readonly string[]) => `${flag} must be ${orList(values)}`,
+  cliMethods: '--methods requires a comma-separated method list',
+  cliIgnore: '--ignore requires a regex pattern',
+  cliParamType: '--param-type requires a name=regex definition',
+}
+
+/** Every message of one locale. */
+export type Messages = typeof en
+
+const zhCN: Messages = {
+  invalidParamTypeName: (name) => `参数类型名 "${name}" 无效：必须以字母开头，且只能包含 ASCII 字母、数字和下划线`,
+  emptyParamType: (name) => `参数类型 "${name}" 无效：应为非空的正则字符串或 RegExp`,
+  paramTypeSlash: (name) => `参数类型 "${name}" 无效：模式不能包含 "/" — 参数只匹配单个路径段`,
+  invalidParamTypeRegex: (name, reason) => `参数类型 "${name}" 无效：${reason}`,
+  invalidPathCase: (value) => `pathCase "${value}" 无效：应为 'preserve'、'kebab'、'snake' 或函数`,
+  invalidPathCaseResult: (result, text) =>
+    `pathCase 对 "${text}" 的结果 ${result} 无效：静态文本必须非空，且不能包含 "/"、":"、"*"、"?"、方括号或圆括号`,
+  invalidMethodName: (method) => `HTTP 方法 "${method}" 无效：方法名只能包含 ASCII 字母和数字`,
+  noMethods: 'methods 选项无效：至少需要一个 HTTP 方法',
+  invalidParseFileName: (value) => `parseFileName "${value}" 无效：应为 'method-name'、'name.method'、'next' 或函数`,
+  invalidTrailingSlash: (value, policies) => `trailingSlash "${value}" 无效：应为 ${policies}`,
+  strictRoutingRequired: `trailingSlash: 'strict' 需要 Express 严格路由：app.enable('strict routing') 或 express.Router({ strict: true })`,
+  invalidParamNameConsistency: (value) => `paramNameConsistency "${value}" 无效：应为 'warn' 或 'error'`,
+  invalidOnError: (value) => `onError "${value}" 无效：应为 'log' 或 'throw'`,
+  invalidLogLevel: (value) => `logLevel "${value}" 无效：应为 'silent'、'error'、'warn'、'info' 或 'debug'`,
+  invalidLogFormat: (value) => `logFormat "${value}" 无效：应为 'pretty' 或 'json'`,
+  lazyWithoutManifest: 'lazy: true 无效：需要提供 routeManifest（scanRoutes() 返回的 routes）',
+  lazyModuleConvention: `lazy: true 无效：需要 convention 'file'，而不是 'module'`,
+  lazyWithWatch: 'lazy: true 无效：不能与 watch: true 同时使用',
+  invalidRouteManifest: 'routeManifest 无效：应为 scanRoutes() 返回的 routes 数组',
+
+  methodPrefixCase: (used, example) => `文件名使用了 "${used}" — HTTP 方法前缀必须小写，例如 "${example}"`,
+  unknownMethod: (method, source, methods) => `"${source}" 中的 HTTP 方法 "${method}" 未知 (${methods})`,
+  combinedAllMethod: (source) => `"${ALL_METHODS_PREFIX}" 已匹配所有方法，不能在 "${source}" 中与其他方法组合`,
+  repeatedMethod: (method, source) => `HTTP 方法 "${method}" 在 "${source}" 中重复出现`,
+  invalidFileName: (methods) => `文件名必须是有效的 HTTP 方法或以 method- 开头 (${methods})`,
+  unconventionalFileName: (fileName) => `文件名 "${fileName}" 不符合 parseFileName 约定`,
+  noMethod: (fileName) => `"${fileName}" 中没有 HTTP 方法`,
+
+  directoryContext: (segment) => `目录 "${segment}"`,
+  invalidParamName: (name, context) => `${context} 中的参数名 "${name}" 无效：只允许 ASCII 字母、数字和下划线`,
+  typedRestParam: (raw, context) => `${context} 中的参数 "${raw}" 无效：剩余参数不能带类型`,
+  unknownParamType: (type, context, types) =>
+    `${context} 中的参数类型 "${type}" 未知：应为 ${types} 之一（可通过 paramTypes 注册自定义类型）`,
+  invalidEscape: (context) =>
+    `${context} 中的转义无效："%" 必须以两位十六进制数字组成 %XX 转义，例如 %2D 表示字面量 "-"（%25 表示 "%"）`,
+  paramNotWholeSegment: (kind, raw, context, segment) =>
+    `${context} 中的${kind === 'rest' ? '剩余' : '带类型'}参数 "${raw}" 无效：该类参数必须独占整个路径段，而不是 "${segment}"`,
+  emptyParam: '不允许空参数 []，请使用 [id] 代替 []',
+  dashBoundary: (rawName) => `路由名 "${rawName}" 无效：不能以 "-" 开头或结尾 — 动态路径段请使用 [id]`,
+  paramSeparator: (context) => `${context} 中的参数语法无效：参数后的静态文本必须以 "." 或 "~" 开头，例如 [name].json`,
+  paramAlternation: (context) => `${context} 中的参数语法无效：参数 ([id]) 与静态文本必须交替出现，并以 "-" 连接`,
+  paramNotLast: (kind, raw, context) =>
+    `${context} 中的${kind === 'optional' ? '可选' : '剩余'}参数 "${raw}" 无效：该类参数必须是最后一个路径段`,
+  directoryParamSpaces: (context) => `${context} 中的参数语法无效：参数必须是不含空格的单个 [id] 路径段`,
+  directoryParamShape: (context) => `${context} 中的参数语法无效：参数必须是单个 [id] 路径段或与静态文本相连，例如 v[version]`,
+  invalidGroup: (segment) => `路由分组 "${segment}" 无效：分组名只能包含 ASCII 字母、数字、"_" 和 "-"`,
+  restNotLast: (name, routePath) => `"${routePath}" 中的剩余参数 "[...${name}]" 无效：剩余参数必须是最后一个路径段`,
+  repeatedParam: (name, routePath) =>
+    `"${routePath}" 中的参数 "${name}" 重复：同一路由内的参数名必须唯一，否则 ctx.params 会丢失其中一个值`,
+
+  ignoreEntry: (index) => `索引 ${index} 处的 ignore 条目无效：应为字符串、RegExp 或 { pattern, type } 对象`,
+  ignoreEntryPattern: (index) => `索引 ${index} 处的 ignore 条目无效："pattern" 必须是字符串或 RegExp`,
+  ignoreType: (index, target) => `索引 ${index} 处的 ignore 类型 "${target}" 无效 — 应为 "file"、"dir" 或 "both"`,
+  ignorePattern: (index, source, reason) => `索引 ${index} 处的 ignore 模式 ("${source}") 无效：${reason}`,
+
+  warning: '警告',
+  skipFile: '跳过文件',
+  skipDirectory: '跳过目录',
+  skipMethodRoute: (method) => `跳过 ${method} 路由`,
+  skipRoute: (route) => `跳过路由 ${route}`,
+  statFailed: '跳过条目（stat 失败）',
+  scanFailed: '跳过目录（扫描失败）',
+  failedToScan: '扫描目录失败',
+  failedToLoad: '加载路由失败',
+  failedToRegister: '注册路由失败',
+  invalidDirectoryMeta: '目录 meta 无效',
+  failedDirectoryMeta: '加载目录 meta 失败',
+  invalidDirectoryMiddleware: '目录中间件无效',
+  failedDirectoryMiddleware: '加载目录中间件失败',
+  ignored: '已忽略',
+
+  scanning: (dir) => `正在扫描控制器目录：${dir}`,
+  methodDirectory: (name) => `目录名 "${name}" 是 HTTP 方法关键字，建议重命名`,
+  defaultExport: '默认导出',
+  namedExport: (name) => `导出 "${name}"`,
+  falsyExport: (subject, value) => `${subject}是非 null 的假值 (${value})，应为函数或 createHandler 的返回值`,
+  strictExport: '严格模式下只允许函数或 createHandler 的返回值',
+  currentExportType: (type) => `当前导出类型：${type}`,
+  currentNamedExportType: (name, type) => `导出 "${name}" 的当前类型：${type}`,
+  correctWays: '正确写法：',
+  notSupported: (example) => `不支持：${example}`,
+  tipFileConvention: `提示：默认导出应放在以方法命名的文件 (get-users.ts) 中，并使用 convention: 'file'`,
+  tipModuleConvention: `提示：要在 route.ts 文件中使用 export const GET / POST，请使用 convention: 'module'`,
+  tipStrict: '提示：可以设置 strict: false 关闭严格检查',
+  looseExport: '检测到不推荐的导出方式（非严格模式）',
+  missingHandler: '导出的对象必须包含 handler 函数',
+  unsupportedExport: (type) => `不支持的导出类型：${type}`,
+  invalidMetaExport: '_meta 必须默认导出一个 RouteMeta 对象，例如 export default { requiresAuth: true }',
+  invalidMiddlewareExport: '_middleware 必须默认导出一个中间件函数或中间件函数数组',
+  nonStrict: (message) => `${message}（非严格模式）`,
+  duplicateRoute: (key) => `重复的路由：${key}`,
+  duplicateRouteModule: (key) => `重复的路由模块：${key}`,
+  namedExports: '文件只能有默认导出，不允许命名导出',
+  detectedNamedExports: (names) => `检测到命名导出：${names}`,
+  tipNamedExports: `提示：要为每个 HTTP 方法导出一个处理函数 (export const GET = ...)，请在 route.ts 文件中使用 convention: 'module'`,
+  moduleDefaultExport: `使用 convention: 'module' 时，route.ts 文件为每个 HTTP 方法导出一个处理函数，不允许默认导出`,
+  unknownModuleExports: (methods) => `路由模块只能导出大写的 HTTP 方法 (${methods})`,
+  detectedOtherExports: (names) => `检测到其他导出：${names}`,
+  emptyRouteModule: '路由模块没有导出任何 HTTP 方法处理函数',
+  unsupportedMethod: (method) =>
+    `应用没有 ${method}() 方法，无法注册${method === ALL_METHODS_PREFIX ? '匹配所有方法的' : ` ${method.toUpperCase()} `}路由`,
+  unsupportedRestParam: (rest, name) =>
+    `Express 4 会把 "${rest}" 当作普通通配符，导致该剩余参数路由错配；请设置 inlineParamRegex: true 以注册 ":${name}(.+)"`,
+
+  loadingStatic: (count) => `正在加载 ${count} 个静态路由`,
+  staticUnsupportedMethod: (method) => `应用没有 ${method}() 方法，无法注册 ${method.toUpperCase()} 路由`,
+  staticBracketPath: `请使用 Express 风格的 :param（例如 '/users/:id'）— 静态路由不支持文件名的 [param] 语法`,
+  staticPathCaseFailed: (routePath, reason) => `无法检查 ${routePath} 的 pathCase：${reason}`,
+  staticPathCaseMismatch: (routePath, expected) => `静态路由 ${routePath} 不符合 pathCase 选项 — 应为 ${expected}`,
+  nullHandler: 'handler 为 null/undefined',
+  invalidHandler: 'handler 类型无效（应为函数或 createHandler 的返回值）',
+  duplicateRouteSkipped: (key) => `重复的路由：${key} — 已跳过`,
+
+  registeredRoutes: '已注册路由：',
+  noRoutes: '未注册任何路由',
+  noRoutesWarning: '未注册任何路由！',
+  total: (count) => `总计：${count}`,
+  publicCount: (count) => `公开：${count}`,
+  protectedCount: (count) => `受保护：${count}`,
+
+  watching: (dir) => `正在监听 ${dir} 的变更`,
+  watchFailed: '无法监听',
+  routesReloaded: (dir) => `已重新加载 ${dir} 中的路由：`,
+  noRouteChanges: (dir) => `${dir} 中的路由没有变化`,
+  routeAddedOutOfOrder: (first, second) => `路由添加顺序有误：在重启前，${first} 会抢占 ${second} 的 URL`,
+  routeAddedOutOfOrderDetail: (loser) => `${loser} 由重新加载注册，排在已有路由之后；重启后会按具体程度排序注册`,
+
+  lazyLoadFailed: (file) => `路由模块加载失败：${file}`,
+  lazyRouteUnlisted: '不在 routeManifest 中 — 已在启动时导入；请重新生成清单',
+
+  forcePatternConflict: (route, publicPattern, protectedPattern) =>
+    `路由 "${route}" 同时匹配了 forcePublic ("${publicPattern}") 和 forceProtected ("${protectedPattern}") — 以 forceProtected 为准`,
+  forcePatternOverridden: (type, pattern, route) =>
+    `${type} 模式 "${pattern}" 匹配了 "${route}" 但不生效 — 该路由有显式的 createHandler meta`,
+  forcePatternUnmatched: (type, pattern) =>
+    `${type} 模式 "${pattern}" 没有匹配任何已注册路由（请检查拼写或过时的配置）`,
+
+  ambiguousRoutes: (first, second) => `路由有歧义：${first} 与 ${second} 匹配相同的 URL`,
+  ambiguousDetail: (winner, loser) => `${winner} 先注册，由它处理这些请求，而不是 ${loser}`,
+  shadowedRoute: (first, second) => `路由不可达：${second} 被 ${first} 遮蔽`,
+  shadowedDetail: (winner, loser) => `${winner} 先注册，并匹配 ${loser} 的所有 URL`,
+  overlappingRoutes: (first, second) => `路由重叠：${first} 抢占了 ${second} 的部分 URL`,
+  overlappingDetail: (winner, loser) => `${winner} 先注册，这些请求永远不会到达 ${loser}`,
+  listedFirst: (winner) => `${winner} 排在前面`,
+  listedFirstShadowing: (winner, loser) => `${winner} 排在前面，并匹配 ${loser} 的所有 URL`,
+  inconsistentParamName: (name, route, source, expected) =>
+    `${route} 中的参数名 :${name} 不一致 — ${source} 将该路径段命名为 :${expected}`,
+
+  routeErrors: (source, count) => `${source} 发现 ${count} 个路由错误：`,
+  duplicateRouteSkippedManifest: (key) => `已跳过重复的路由：${key}`,
+  generated: (outputPath) => `已生成：${outputPath}`,
+  error: '错误',
+  usage: '用法',
+  cliChoices: (flag, values) => `${flag} 必须是 ${orListZh(values)}`,
+  cliMethods: '--methods 需要以逗号分隔的方法列表',
+  cliIgnore: '--ignore 需要一个正则模式',
+  cliParamType: '--param-type 需要 name=regex 形式的定义',
+}
+
+const CATALOGS: Readonly<Record<Locale, Messages>> = { en, 'zh-CN': zhCN }
+
+/** Validate the `locale` option at router creation (default: `'en'`). */
+export function resolveLocale(locale?: Locale): Locale {
+  if (locale === undefined) return 'en'
+  if ((LOCALES as readonly unknown[]).includes(locale)) return locale
+  throw new Error(`Invalid locale "${String(locale)}": expected ${LOCALES.map(name => `'${name}'`).join(' or ')}`)
+}
+
+/** The message catalog of `locale`. */
+export function getMessages(locale: Locale = 'en'): Messages {
+  return CATALOGS[locale]
+}
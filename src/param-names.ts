@@ -0,0 +1,92 @@
+/**
+ * Param naming consistency across sibling routes: `users/[userId]/get.ts`,
+ * `get-users-[id].ts` and `delete-users-[uid].ts` all name the segment after
+ * `/users` differently, so clients read `params.userId` on one route and
+ * `params.id` on the next. Opt-in via the `paramNameConsistency` option.
+ */
+import type { ReportFn } from './diagnostics'
+import type { RegisteredRoute } from './handler'
+import { normalizeParamNames, stripParamConstraints } from './parse-route'
+import { getMessages, type Locale } from './messages'
+
+/** `'warn'` logs inconsistent names; `'error'` also skips the routes using them. */
+export type ParamNameConsistency = 'warn' | 'error'
+
+/** A route whose param is named differently from the first route with a param at that position. */
+export interface ParamNameConflict<T extends RegisteredRoute> {
+  route: T
+  /** The route's param name, e.g. `id` */
+  name: string
+  /** The name used by `expectedBy`, e.g. `userId` */
+  expected: string
+  expectedBy: T
+}
+
+/** Validate the `paramNameConsistency` option at router creation; unset disables the check. */
+export function resolveParamNameConsistency(level?: ParamNameConsistency, locale?: Locale): ParamNameConsistency | undefined {
+  if (level === undefined || level === 'warn' || level === 'error') return level
+  throw new Error(getMessages(locale).invalidParamNameConsistency(String(level)))
+}
+
+/**
+ * Group whole-segment params (`:id`, `:id(\d+)`, `*path`) by position — the
+ * segments before them, with every param folded to `:` so that
+ * `/users/:id/posts` and `/users/:userId/posts` share positions — and report
+ * each route whose name differs from the first one seen there. Names are
+ * compared as `normalizeParamNames` folds them, so `:userId` and `:UserID`
+ * agree. At most one conflict is reported per route.
+ */
+export function findParamNameConflicts<T extends RegisteredRoute>(routes: readonly T[]): ParamNameConflict<T>[] {
+  const firstNames = new Map<string, { name: string; route: T }>()
+  const conflicts: ParamNameConflict<T>[] = []
+  for (const route of routes) {
+    const segments = stripParamConstraints(route.path).split('/').filter(Boolean)
+    let conflict: ParamNameConflict<T> | undefined
+    segments.forEach((segment, i) => {
+      const param = /^[:*]([A-Za-z0-9_]+)\??$/.exec(segment)
+      if (!param) return
+      const position = segments
+        .slice(0, i)
+        .map(before => (/^[:*]/.test(before) ? ':' : before))
+        .join('/')
+      const first = firstNames.get(position)
+      if (!first) {
+        firstNames.set(position, { name: param[1], route })
+      } else if (!conflict && normalizeParamNames(`:${first.name}`) !== normalizeParamNames(`:${param[1]}`)) {
+        conflict = { route, name: param[1], expected: first.name, expectedBy: first.route }
+      }
+    })
+    if (conflict) conflicts.push(conflict)
+  }
+  return conflicts
+}
+
+/**
+ * Report the conflicts among `routes` at the configured level and return the
+ * routes to leave unregistered — empty for `'warn'`. A file registering
+ * several methods is reported once.
+ */
+export function checkParamNames<T extends RegisteredRoute>(
+  routes: readonly T[],
+  level: ParamNameConsistency,
+  report: ReportFn,
+  locale?: Locale
+): Set<T> {
+  const msg = getMessages(locale)
+  const rejected = new Set<T>()
+  const reported = new Set<string>()
+  const describe = (route: T) => route.file ?? `${route.method} ${route.path}`
+  for (const { route, name, expected, expectedBy } of findParamNameConflicts(routes)) {
+    if (level === 'error') rejected.add(route)
+    if (reported.has(describe(route))) continue
+    reported.add(describe(route))
+    const message = msg.inconsistentParamName(name, `${route.method} ${route.path}`, describe(expectedBy), expected)
+    const diagnostic = { code: 'AR_INCONSISTENT_PARAM_NAME', severity: level, file: route.file, route: `${route.method} ${route.path}`, message } as const
+    if (level === 'error') {
+      report(diagnostic, [route.file ? `❌ ${msg.skipFile}: ${route.file}` : `❌ ${msg.skipRoute(`${route.method} ${route.path}`)}`, `   ❌ ${message}`])
+    } else {
+      report(diagnostic, [`⚠️  ${message}`])
+    }
+  }
+  return rejected
+}
@@ -7,126 +7,488 @@
  * names via `normalizeParamNames`, so `:UserId` and `:userid` are treated
  * as the same route.
  */
+import { PARAM_TYPES } from './constants'
+import { getMessages, type Locale, type Messages } from './messages'
 
-// Route-name grammar: the route name is a `-`-joined sequence of static
-// text segments and `[param]` tokens, alternating. Static text may contain
-// hyphens (as literal `-` joins and inside static names like `user-info`)
-// but never brackets; params are single non-empty `[param]` tokens.
-const SEGMENT = '([^\\[\\]]+|\\[[^\\[\\]]+\\])'
-const ROUTE_NAME_PATTERN = new RegExp(`^${SEGMENT}(-${SEGMENT})*$`)
+// Route-name grammar: the route name is a `-`-joined sequence of segments.
+// Static text may contain hyphens (as literal `-` joins and inside static
+// names like `user-info`) but never brackets. A param segment is a single
+// `[param]` token, or static text glued to params (see MIXED_SEGMENT_PATTERN).
+// A rest token `[...param]` uses the same bracket form and an optional token
+// `[[param]]` doubles the brackets; both span a whole segment and come last.
+const WHOLE_PARAM_PATTERN = /^(?:\[\[[^\[\]]+\]\]|\[[^\[\]]+\])$/
 
-// A directory segment is either pure static text or a single whole-segment
-// `[param]` — a param must span the entire segment, never glue to static text.
-const DIR_PARAM_PATTERN = /^\[[^\[\]\s]+\]$/
+// A mixed segment glues static text to params — `[name].json`, `v[version]`,
+// `[name].[ext]`. Text after a param must start with "." or "~" (the URL-safe
+// characters left once `-` joins segments and `_` belongs to param names), so
+// the registered `:name.json` keeps an unambiguous end to the param name.
+const MIXED_SEGMENT_PATTERN = /^[^\[\]]*\[[^\[\]]+\](?:[.~][^\[\]]*\[[^\[\]]+\])*(?:[.~][^\[\]]*)?$/
+
+// A `%XX` escape in static text stands for a character the file-name syntax
+// would otherwise read — `%2D` a literal "-", `%5B` / `%5D` brackets — or
+// one a file name cannot hold, such as `%3A` for ":" on Windows.
+const ESCAPE_PATTERN = /%([0-9A-Fa-f]{2})/g
+
+// RFC 3986 segment characters (pchar), registered as themselves once decoded;
+// any other escape stays percent-encoded, the form it takes in a request URL.
+const SEGMENT_CHAR = /^[A-Za-z0-9\-._~!$&'()*+,;=:@]$/
+
+// Segment characters that path-to-regexp reads as syntax, registered behind
+// a `\` so Express, Koa and the Worker router match them literally.
+const ROUTER_SYNTAX_CHAR = /^[:*()+!]$/
+
+// Every bracket token in a route name or directory segment — group 1 is the
+// content of an optional `[[param]]`, group 2 the content of a `[param]`.
+const TOKEN_PATTERN = /\[\[([^\[\]]+)\]\]|\[([^\[\]]+)\]/g
+
+// A route-group directory `(name)` organizes files without adding a segment.
+const GROUP_PATTERN = /^\((.*)\)$/
+const GROUP_NAME = /^[A-Za-z0-9_-]+$/
+
+// Rest-parameter prefix inside brackets — `[...path]` captures every
+// remaining segment and registers as the named wildcard `*path`.
+const REST_PREFIX = '...'
 
 // ASCII-only content for parameter names — `\w` in JS would otherwise let
 // `[用户名]` slip through, so params must stay ASCII-safe in file names.
 const ASCII_PARAM = /^[A-Za-z0-9_]+$/
 
-/** Extract every `[param]` token's content, or empty if the name has none. */
-function paramTokens(name: string): string[] {
-  return (name.match(/\[([^\[\]]+)\]/g) ?? []).map((token) => token.slice(1, -1))
+// Type names follow identifier rules so `[id:int]` stays unambiguous.
+const TYPE_NAME = /^[A-Za-z][A-Za-z0-9_]*$/
+
+/** Options shared by the route-name validators and converters. */
+export interface RouteNameOptions {
+  /**
+   * Param types usable as `[name:type]`, mapping type name → regex source.
+   * Defaults to the built-in `PARAM_TYPES`; see `resolveParamTypes`.
+   */
+  paramTypes?: Readonly<Record<string, string>>
+  /**
+   * Transform for static path text, from `resolvePathCase`. Absent keeps
+   * static text as written; param names are never transformed.
+   */
+  pathCase?: (text: string) => string
+  /** Language of the thrown validation errors (default: `'en'`). */
+  locale?: Locale
+}
+
+/**
+ * How static path text is cased in the registered URL: as written, or
+ * converted to kebab-case / snake_case from camelCase, PascalCase, `_` or `-`
+ * words. A function receives each run of static text and returns its URL form.
+ */
+export type PathCase = 'preserve' | 'kebab' | 'snake' | ((text: string) => string)
+
+/** Split camelCase / PascalCase / `_` / `-` words, then rejoin them lowercased. */
+function joinWords(text: string, separator: string): string {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/[ _-]+/g, separator)
+    .toLowerCase()
+}
+
+const PATH_CASES: Readonly<Record<'kebab' | 'snake', (text: string) => string>> = {
+  kebab: (text) => joinWords(text, '-'),
+  snake: (text) => joinWords(text, '_'),
+}
+
+interface ParamToken {
+  raw: string
+  name: string
+  rest: boolean
+  optional: boolean
+  type?: string
+}
+
+/**
+ * Extract every `[param]` / `[[param]]` token, or empty if the name has none.
+ * The bracket content is split into `...` rest prefix, name and `:type`.
+ */
+function paramTokens(name: string): ParamToken[] {
+  return Array.from(name.matchAll(TOKEN_PATTERN), (match) => {
+    let content = match[1] ?? match[2]
+    const rest = content.startsWith(REST_PREFIX)
+    if (rest) content = content.slice(REST_PREFIX.length)
+    const typeIndex = content.indexOf(':')
+    return {
+      raw: match[0],
+      name: typeIndex === -1 ? content : content.slice(0, typeIndex),
+      rest,
+      optional: match[1] !== undefined,
+      type: typeIndex === -1 ? undefined : content.slice(typeIndex + 1),
+    }
+  })
+}
+
+/** Validate a token's name and type; `context` describes where it appears. */
+function validateToken(token: ParamToken, context: string, paramTypes: Readonly<Record<string, string>>, msg: Messages): void {
+  if (!ASCII_PARAM.test(token.name)) {
+    throw new Error(msg.invalidParamName(token.name, context))
+  }
+  if (token.type === undefined) {
+    return
+  }
+  if (token.rest) {
+    throw new Error(msg.typedRestParam(token.raw, context))
+  }
+  if (!Object.prototype.hasOwnProperty.call(paramTypes, token.type)) {
+    throw new Error(msg.unknownParamType(token.type, context, Object.keys(paramTypes).join(', ')))
+  }
+}
+
+/** Reject a `%` that does not start a two-hex-digit escape; `context` describes where it appears. */
+function validateEscapes(text: string, context: string, msg: Messages): void {
+  if (/%(?![0-9A-Fa-f]{2})/.test(text)) {
+    throw new Error(msg.invalidEscape(context))
+  }
+}
+
+/**
+ * Decode the `%XX` escapes of a converted path: segment characters become
+ * literal text (`\:` for router syntax), anything else stays encoded in
+ * uppercase — `%5B` is how a request spells "[".
+ */
+function decodeEscapes(routePath: string): string {
+  return routePath.replace(ESCAPE_PATTERN, (escape, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16))
+    if (!SEGMENT_CHAR.test(char)) return escape.toUpperCase()
+    return ROUTER_SYNTAX_CHAR.test(char) ? `\\${char}` : char
+  })
+}
+
+/** Drop the `\` from router-syntax characters of registered static text, e.g. `a\:b` → `a:b`. */
+export function unescapeStaticText(text: string): string {
+  return text.replace(/\\(.)/g, '$1')
+}
+
+/** Whether a segment is a whole `[param]` token or a well-formed mixed segment. */
+function isParamSegment(segment: string): boolean {
+  return WHOLE_PARAM_PATTERN.test(segment) || MIXED_SEGMENT_PATTERN.test(segment)
+}
+
+/** A param directly followed by static text other than "." / "~", e.g. `[name]json`. */
+function lacksSeparator(segment: string): boolean {
+  return /\][^.~[\]]/.test(segment)
+}
+
+/**
+ * Validate every token of a well-formed param segment. Rest and typed params
+ * must span a whole segment rather than sit in a mixed one (an optional
+ * `[[param]]` never matches the mixed grammar).
+ */
+function validateSegmentTokens(segment: string, context: string, paramTypes: Readonly<Record<string, string>>, msg: Messages): void {
+  const mixed = !WHOLE_PARAM_PATTERN.test(segment)
+  for (const token of paramTokens(segment)) {
+    validateToken(token, context, paramTypes, msg)
+    if (mixed && (token.rest || token.type !== undefined)) {
+      throw new Error(msg.paramNotWholeSegment(token.rest ? 'rest' : 'typed', token.raw, context, segment))
+    }
+  }
+}
+
+/** Convert a bracket token to its `:name` / `*name` form, with `(regex)` and `?` suffixes. */
+function convertToken(token: ParamToken, paramTypes: Readonly<Record<string, string>>): string {
+  const constraint = token.type !== undefined ? `(${paramTypes[token.type]})` : ''
+  return `${token.rest ? '*' : ':'}${token.name}${constraint}${token.optional ? '?' : ''}`
+}
+
+/**
+ * Merge custom param types over the built-in `PARAM_TYPES`. Accepts regex
+ * sources or RegExp instances (flags are dropped). Throws with a clear
+ * message when a type name is not an identifier, a regex is invalid, or a
+ * source could match across segments (contains `/`).
+ */
+export function resolveParamTypes(custom?: Record<string, string | RegExp>, locale?: Locale): Readonly<Record<string, string>> {
+  if (!custom) return PARAM_TYPES
+  const msg = getMessages(locale)
+  const resolved: Record<string, string> = { ...PARAM_TYPES }
+  for (const [name, pattern] of Object.entries(custom)) {
+    if (!TYPE_NAME.test(name)) {
+      throw new Error(msg.invalidParamTypeName(name))
+    }
+    const source = pattern instanceof RegExp ? pattern.source : pattern
+    if (typeof source !== 'string' || source === '') {
+      throw new Error(msg.emptyParamType(name))
+    }
+    if (source.includes('/')) {
+      throw new Error(msg.paramTypeSlash(name))
+    }
+    try {
+      new RegExp(source)
+    } catch (err) {
+      throw new Error(msg.invalidParamTypeRegex(name, err instanceof Error ? err.message : String(err)))
+    }
+    resolved[name] = source
+  }
+  return resolved
+}
+
+/**
+ * Resolve the `pathCase` option into a static-text transform, or undefined
+ * for `'preserve'`. A custom function's results are checked when applied:
+ * they must be non-empty and free of path or param syntax.
+ */
+export function resolvePathCase(pathCase?: PathCase, locale?: Locale): ((text: string) => string) | undefined {
+  if (pathCase === undefined || pathCase === 'preserve') return undefined
+  const msg = getMessages(locale)
+  if (typeof pathCase === 'function') {
+    return (text) => {
+      const result = pathCase(text)
+      if (typeof result !== 'string' || result === '' || /[/:*?()[\]]/.test(result)) {
+        throw new Error(msg.invalidPathCaseResult(JSON.stringify(result), text))
+      }
+      return result
+    }
+  }
+  if (pathCase === 'kebab' || pathCase === 'snake') return PATH_CASES[pathCase]
+  throw new Error(msg.invalidPathCase(String(pathCase)))
+}
+
+/**
+ * Apply a static-text transform to an Express-style path, leaving `:name`,
+ * `*name` and whole typed-param segments (`:id(\d+)`) untouched — so
+ * `/userProfile/:userId.json` becomes `/user-profile/:userId.json` in kebab case.
+ */
+export function applyPathCase(routePath: string, pathCase?: (text: string) => string): string {
+  if (!pathCase) return routePath
+  return routePath
+    .split('/')
+    .map((segment) => {
+      if (segment.includes('(')) return segment
+      return segment
+        .split(/([:*][A-Za-z0-9_]+\??|%[0-9A-Fa-f]{2})/)
+        .map((part, i) => (i % 2 === 0 && part ? pathCase(part) : part))
+        .join('')
+    })
+    .join('/')
 }
 
 /**
  * Normalize a route pattern for duplicate detection — parameter names are
  * folded to lowercase so `:UserId` and `:userid` are treated as the same
  * route (they match the same URLs). The *registered* pattern keeps its
- * original casing; this is only used to build a comparison key.
+ * original casing; this is only used to build a comparison key. A param's
+ * `(regex)` constraint is left untouched, since `\d` and `\D` differ.
  */
 export function normalizeParamNames(pattern: string): string {
   return pattern
     .replace(/\[([^\]]+)\]/g, (_, name) => `[${name.toLowerCase()}]`)
-    .replace(/:([^/]+)/g, (_, name) => `:${name.toLowerCase()}`)
+    .split('/')
+    .map((segment) => {
+      // A typed param spans its segment; elsewhere every `:name` is a param,
+      // including those glued to static text (`v:version`, `:name.:ext`)
+      const params = segment.includes('(') ? /^([:*])([A-Za-z0-9_]+)/ : /(?<!\\)([:*])([A-Za-z0-9_]+)/g
+      return segment.replace(params, (_, marker, name) => `${marker}${name.toLowerCase()}`)
+    })
+    .join('/')
 }
 
 /**
  * Validate a route-name fragment (everything after `method-` in a file name).
  * Throws on malformed `[param]` syntax.
  */
-export function validateRouteName(rawName: string): void {
+export function validateRouteName(rawName: string, options: RouteNameOptions = {}): void {
+  const msg = getMessages(options.locale)
+  validateEscapes(rawName, `"${rawName}"`, msg)
+
   if (rawName.includes('[]')) {
-    throw new Error('Empty parameters not allowed [], use [id] instead of []')
+    throw new Error(msg.emptyParam)
   }
 
   // A leading or trailing dash means an empty path segment at the boundary —
   // almost always a typo (`users-` intended as `users/[id]`, or `-a` as `a`).
   if (rawName.startsWith('-') || rawName.endsWith('-')) {
-    throw new Error(
-      `Invalid route name "${rawName}": must not start or end with "-" — use [id] for a dynamic segment`
-    )
+    throw new Error(msg.dashBoundary(rawName))
   }
 
   if (!rawName.includes('[') && !rawName.includes(']')) {
     return
   }
 
-  if (!ROUTE_NAME_PATTERN.test(rawName)) {
-    throw new Error(
-      `Invalid parameter syntax in "${rawName}": params ([id]) and static text must alternate, joined by "-"`
-    )
+  const paramTypes = options.paramTypes ?? PARAM_TYPES
+  for (const segment of splitRouteSegments(rawName)) {
+    if (!segment.includes('[') && !segment.includes(']')) continue
+    if (!isParamSegment(segment)) {
+      throw new Error(lacksSeparator(segment) ? msg.paramSeparator(`"${rawName}"`) : msg.paramAlternation(`"${rawName}"`))
+    }
+    validateSegmentTokens(segment, `"${rawName}"`, paramTypes, msg)
   }
 
-  for (const name of paramTokens(rawName)) {
-    if (!ASCII_PARAM.test(name)) {
-      throw new Error(
-        `Invalid parameter name "${name}" in "${rawName}": only ASCII letters, digits and underscore allowed`
-      )
+  for (const token of paramTokens(rawName)) {
+    if ((token.rest || token.optional) && !rawName.endsWith(token.raw)) {
+      throw new Error(msg.paramNotLast(token.optional ? 'optional' : 'rest', token.raw, `"${rawName}"`))
     }
   }
 }
 
 /**
- * Validate a directory segment (single path segment, at most one `[param]`).
+ * Validate a directory segment — a single path segment holding one whole
+ * `[param]` or a mixed segment such as `v[version]` or `[name].json`.
  * Throws on malformed bracket syntax or empty brackets.
  */
-export function validateDirectorySegment(segment: string): void {
+export function validateDirectorySegment(segment: string, options: RouteNameOptions = {}): void {
+  const msg = getMessages(options.locale)
+  const context = msg.directoryContext(segment)
+  validateEscapes(segment, context, msg)
+
   if (!segment.includes('[') && !segment.includes(']')) {
     return
   }
 
-  if (DIR_PARAM_PATTERN.test(segment)) {
-    const name = segment.slice(1, -1)
-    if (!ASCII_PARAM.test(name)) {
-      throw new Error(
-        `Invalid parameter name "${name}" in directory "${segment}": only ASCII letters, digits and underscore allowed`
-      )
-    }
+  // An optional `[[param]]` only makes sense as the last segment of a file name
+  if (!/\[[^\]]*\s/.test(segment) && !segment.includes('[[') && isParamSegment(segment)) {
+    validateSegmentTokens(segment, context, options.paramTypes ?? PARAM_TYPES, msg)
     return
   }
 
   const paramContent = segment.slice(segment.indexOf('[') + 1, segment.indexOf(']'))
   if (paramContent.includes(' ') || paramContent === '') {
-    throw new Error(
-      `Invalid parameter syntax in directory "${segment}": a parameter must be a single [id] segment without spaces`
-    )
+    throw new Error(msg.directoryParamSpaces(context))
+  }
+  if (lacksSeparator(segment)) {
+    throw new Error(msg.paramSeparator(context))
   }
-  throw new Error(
-    `Invalid parameter syntax in directory "${segment}": a parameter must be a single [id] segment`
-  )
+  throw new Error(msg.directoryParamShape(context))
+}
+
+/**
+ * Split a route name into its `-`-joined segments, leaving any `-` inside
+ * brackets alone so `[user-id]` still reaches the param-name check.
+ */
+function splitRouteSegments(rawName: string): string[] {
+  return rawName.split(/-(?![^\[]*\])/)
+}
+
+/** Replace every bracket token of one segment with its `:name` / `*name` form. */
+function convertSegment(segment: string, paramTypes: Readonly<Record<string, string>>): string {
+  const tokens = paramTokens(segment)
+  let converted = 0
+  return segment.replace(TOKEN_PATTERN, () => convertToken(tokens[converted++], paramTypes))
 }
 
 /**
  * Convert a route name fragment (everything after `method-` in a file name)
- * to an Express-style path segment using three ordered regex passes.
- *
- * Pass order matters: step 2 must precede step 3 to avoid mis-converting
- * adjacent params like `[a]-[b]`.
+ * to an Express-style path. A `-` next to a param segment becomes `/`; a `-`
+ * between static words stays literal, so `user-info-[id]` → `user-info/:id`.
+ * Each bracket token becomes `:name` (or `*name` for `[...name]`) with its
+ * `(regex)` type constraint and the `?` of an optional `[[name]]`; a mixed
+ * segment keeps its static text, so `[name].json` → `:name.json`. Static
+ * text is finally cased by `options.pathCase`, if set.
  */
-export function parseRouteName(rawName: string): string {
-  validateRouteName(rawName)
-  return rawName
-    .replace(/\[([A-Za-z0-9_]+)\]/g, ':$1')
-    .replace(/-:/g, '/:')
-    .replace(/:([A-Za-z0-9_]+)-/g, ':$1/')
+export function parseRouteName(rawName: string, options: RouteNameOptions = {}): string {
+  validateRouteName(rawName, options)
+  const paramTypes = options.paramTypes ?? PARAM_TYPES
+  const segments = splitRouteSegments(rawName)
+  const routePath = segments
+    .map((segment, i) => {
+      const converted = convertSegment(segment, paramTypes)
+      if (i === 0) return converted
+      const joinsParam = segment.includes('[') || segments[i - 1].includes('[')
+      return `${joinsParam ? '/' : '-'}${converted}`
+    })
+    .join('')
+  return decodeEscapes(applyPathCase(routePath, options.pathCase))
 }
 
 /**
  * Convert a directory segment that may contain `[param]` brackets to
- * an Express-style `:param` segment. Only the bracket substitution applies —
- * no hyphen-to-slash logic since directory names are single segments.
+ * an Express-style `:param` segment (or `*param` for `[...param]`, with a
+ * `(regex)` suffix for `[param:type]`). Only the bracket substitution
+ * applies — no hyphen-to-slash logic since directory names are single
+ * segments — and mixed segments keep their static text (`v[version]` → `v:version`).
+ */
+export function parseDirectorySegment(segment: string, options: RouteNameOptions = {}): string {
+  validateDirectorySegment(segment, options)
+  return decodeEscapes(applyPathCase(convertSegment(segment, options.paramTypes ?? PARAM_TYPES), options.pathCase))
+}
+
+/**
+ * Return the group name of a `(name)` route-group directory, or undefined for
+ * any other directory. Throws on an empty or non-ASCII group name.
+ */
+export function parseGroupSegment(segment: string, locale?: Locale): string | undefined {
+  const match = segment.match(GROUP_PATTERN)
+  if (!match) {
+    return undefined
+  }
+  if (!GROUP_NAME.test(match[1])) {
+    throw new Error(getMessages(locale).invalidGroup(segment))
+  }
+  return match[1]
+}
+
+/**
+ * Collect the declared type of every typed param in a route name or
+ * directory segment, e.g. `users-[id:int]` → `{ id: 'int' }`.
+ */
+export function collectParamTypes(rawName: string): Record<string, string> {
+  const types: Record<string, string> = {}
+  for (const token of paramTokens(rawName)) {
+    if (token.type !== undefined) types[token.name] = token.type
+  }
+  return types
+}
+
+/**
+ * Strip `(regex)` constraints from a registered pattern, leaving the plain
+ * `:name` form — used for `$routes` entries, force-pattern matching and
+ * frameworks without inline-regex support.
  */
-export function parseDirectorySegment(segment: string): string {
-  validateDirectorySegment(segment)
-  return segment.replace(/\[([A-Za-z0-9_]+)\]/g, ':$1')
-}
\ No newline at end of file
+export function stripParamConstraints(routePath: string): string {
+  return routePath
+    .split('/')
+    .map((segment) => segment.replace(/^([:*][A-Za-z0-9_]+)\(.*\)(\??)$/, '$1$2'))
+    .join('/')
+}
+
+/**
+ * Rewrite a path's trailing rest param `*name` as `:name(.+)`, the form
+ * path-to-regexp < 8 (Express 4, @koa/router ≤ 12) matches — those read
+ * `*name` as a bare wildcard followed by the literal text `name`.
+ */
+export function inlineRestParam(routePath: string): string {
+  return routePath.replace(/\/\*([A-Za-z0-9_]+)$/, '/:$1(.+)')
+}
+
+/**
+ * Validate that a rest parameter (`*name`) is the final segment of a full
+ * route path. A `[...name]` directory is only valid when nothing beneath it
+ * adds another segment (e.g. `[...path]/get.ts`, not `[...path]/get-x.ts`).
+ */
+export function validateRestPosition(routePath: string, locale?: Locale): void {
+  const segments = routePath.split('/').filter(Boolean)
+  const restIndex = segments.findIndex((segment) => segment.startsWith('*'))
+  if (restIndex !== -1 && restIndex !== segments.length - 1) {
+    throw new Error(getMessages(locale).restNotLast(segments[restIndex].slice(1), routePath))
+  }
+}
+
+/**
+ * Validate that no param name repeats in a full route path — in
+ * `/users/:id/posts/:id` the second value overwrites the first in
+ * `ctx.params`. Names compare as written, so `:id` and `:ID` are distinct.
+ */
+export function validateUniqueParamNames(routePath: string, locale?: Locale): void {
+  const seen = new Set<string>()
+  for (const [, name] of stripParamConstraints(routePath).matchAll(/(?<!\\)[:*]([A-Za-z0-9_]+)/g)) {
+    if (seen.has(name)) {
+      throw new Error(getMessages(locale).repeatedParam(name, routePath))
+    }
+    seen.add(name)
+  }
+}
+
+/**
+ * Expand a trailing optional segment (`:page?` or `*slug?`) into the two
+ * concrete patterns it stands for — without and with the segment. A pattern
+ * without an optional segment is returned alone.
+ */
+export function expandOptionalSegments(routePath: string): string[] {
+  const match = routePath.match(/^(.*)\/([:*][A-Za-z0-9_]+(?:\([^/]*\))?)\?$/)
+  if (!match) {
+    return [routePath]
+  }
+  const [, base, segment] = match
+  return [base || '/', `${base}/${segment}`]
+}
@@ -0,0 +1,42 @@
+/**
+ * Fail-fast loading: with `onError: 'throw'`, every problem a scan reports as an
+ * error — a bad file name, a failed import, a named export, a duplicate — is
+ * also collected, and loading rejects with one AggregateError listing them
+ * once the whole scan is done, so a broken deploy does not boot with routes
+ * missing.
+ */
+import type { ReportFn, RouteDiagnostic } from './diagnostics'
+import { getMessages, type Locale } from './messages'
+
+/** `'log'` logs route errors and keeps going; `'throw'` also rejects once loading ends. */
+export type ErrorPolicy = 'log' | 'throw'
+
+/** Validate the `onError` option at router creation (default: `'log'`). */
+export function resolveErrorPolicy(onError?: ErrorPolicy, locale?: Locale): ErrorPolicy {
+  if (onError === undefined || onError === 'log' || onError === 'throw') return onError ?? 'log'
+  throw new Error(getMessages(locale).invalidOnError(String(onError)))
+}
+
+/**
+ * Wrap `report` so that it also gathers its error diagnostics into
+ * `problems` — one per file or route that was skipped. Warnings are
+ * reported but not collected.
+ */
+export function collectErrors(report: ReportFn, problems: RouteDiagnostic[]): ReportFn {
+  return (diagnostic, lines) => {
+    report(diagnostic, lines)
+    if (diagnostic.severity === 'error') problems.push(diagnostic)
+  }
+}
+
+/**
+ * The AggregateError `onError: 'throw'` rejects with: one `Error` per
+ * problem, its `code` set to the diagnostic code as Node does for system errors.
+ */
+export function createRouteErrors(source: string, problems: readonly RouteDiagnostic[], locale?: Locale): AggregateError {
+  const messages = problems.map(({ file, route, message }) => `${file ?? route ?? source}: ${message}`)
+  return new AggregateError(
+    problems.map(({ code }, i) => Object.assign(new Error(messages[i]), { code })),
+    `${getMessages(locale).routeErrors(source, problems.length)}\n${messages.map(message => `  - ${message}`).join('\n')}`
+  )
+}
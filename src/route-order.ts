@@ -0,0 +1,270 @@
+/**
+ * Segment-wise route specificity, shared by `loadRoutes` (framework
+ * registration order) and the manifest builder (Worker match order).
+ *
+ * Routes are compared segment by segment; at the first segment whose kind
+ * differs, static beats mixed (`:name.json`) beats typed param beats param
+ * beats rest. A route that runs
+ * out of segments first sorts first (the two can never match the same URL).
+ *
+ * The overlap analysis then checks routes in registration order — across
+ * controller directories, static route lists and the manifest — for routes
+ * that lose URLs to one registered before them.
+ */
+import { ALL_METHODS_PREFIX } from './constants'
+import type { AppLike, RegisteredRoute, RouteOverlap } from './handler'
+import type { ReportFn } from './diagnostics'
+import { expandOptionalSegments, unescapeStaticText } from './parse-route'
+import { getMessages, type Locale } from './messages'
+
+/** A route as seen by the ordering helpers: method plus Express-style path. */
+export interface OrderedRoute {
+  method: string
+  path: string
+}
+
+/** A param glued to static text, e.g. `:name.json`, `v:version` or `:name.:ext` (an escaped `\:` is text). */
+function isMixedSegment(segment: string): boolean {
+  return !segment.includes('(') && /(?<!\\):[A-Za-z0-9_]+/.test(segment) && !/^:[A-Za-z0-9_]+\??$/.test(segment)
+}
+
+/** 0 static, 1 mixed, 2 typed param (`:id(\d+)`), 3 param, 4 rest (`*path`). */
+function segmentRank(segment: string): number {
+  if (segment.startsWith('*')) return 4
+  if (isMixedSegment(segment)) return 1
+  if (segment.startsWith(':')) return segment.includes('(') ? 2 : 3
+  return 0
+}
+
+/** Compare two paths by specificity alone; 0 when every segment kind matches. */
+export function compareSpecificity(a: string, b: string): number {
+  const segmentsA = a.split('/').filter(Boolean)
+  const segmentsB = b.split('/').filter(Boolean)
+  const length = Math.min(segmentsA.length, segmentsB.length)
+  for (let i = 0; i < length; i++) {
+    const diff = segmentRank(segmentsA[i]) - segmentRank(segmentsB[i])
+    if (diff !== 0) return diff
+  }
+  return segmentsA.length - segmentsB.length
+}
+
+/**
+ * Total order for registration: specificity, then path, then method — with a
+ * catch-all `ALL` route after the method-specific routes on the same path.
+ */
+export function compareRoutes(a: OrderedRoute, b: OrderedRoute): number {
+  const isAll = (route: OrderedRoute) => Number(route.method.toLowerCase() === ALL_METHODS_PREFIX)
+  return compareSpecificity(a.path, b.path) ||
+    a.path.localeCompare(b.path) ||
+    isAll(a) - isAll(b) ||
+    a.method.localeCompare(b.method)
+}
+
+/** One path segment as the matcher sees it; `constraint` is a typed param's regex. */
+type Segment =
+  | { kind: 'static'; value: string }
+  | { kind: 'param'; constraint?: string }
+  | { kind: 'rest' }
+  | { kind: 'mixed'; regex: RegExp; shape: string; prefix: string; suffix: string }
+
+function parseSegments(path: string): Segment[] {
+  return path.split('/').filter(Boolean).map((segment): Segment => {
+    if (segment.startsWith('*')) return { kind: 'rest' }
+    if (isMixedSegment(segment)) {
+      const parts = segment.split(/(?<!\\):[A-Za-z0-9_]+/).map(unescapeStaticText)
+      const source = parts.map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+?')
+      return {
+        kind: 'mixed',
+        regex: new RegExp(`^${source}$`),
+        shape: parts.join(':'),
+        prefix: parts[0],
+        suffix: parts[parts.length - 1],
+      }
+    }
+    if (segment.startsWith(':')) {
+      const constraintStart = segment.indexOf('(')
+      return constraintStart === -1
+        ? { kind: 'param' }
+        : { kind: 'param', constraint: segment.slice(constraintStart + 1, segment.lastIndexOf(')')) }
+    }
+    return { kind: 'static', value: unescapeStaticText(segment) }
+  })
+}
+
+/** Whether a typed param accepts a literal segment; an unparsable constraint is assumed to. */
+function constraintAccepts(constraint: string, value: string): boolean {
+  try {
+    return new RegExp(`^(?:${constraint})$`).test(value)
+  } catch {
+    return true
+  }
+}
+
+/** Every value `b` accepts is also accepted by `a` (neither is a rest segment). */
+function segmentCovers(a: Segment, b: Segment): boolean {
+  if (a.kind === 'static') return b.kind === 'static' && a.value === b.value
+  if (a.kind === 'mixed') {
+    if (b.kind === 'static') return a.regex.test(b.value)
+    return b.kind === 'mixed' && b.shape === a.shape
+  }
+  if (a.kind !== 'param') return true
+  if (!a.constraint) return true
+  if (b.kind === 'static') return constraintAccepts(a.constraint, b.value)
+  return b.kind === 'param' && b.constraint === a.constraint
+}
+
+/**
+ * Some value is accepted by both segments (neither is a rest segment).
+ * Differently typed params are assumed not to overlap, as in `compareRoutes`.
+ */
+function segmentsOverlap(a: Segment, b: Segment): boolean {
+  if (a.kind === 'static' && b.kind === 'static') return a.value === b.value
+  if (a.kind === 'mixed' && b.kind === 'static') return a.regex.test(b.value)
+  if (b.kind === 'mixed' && a.kind === 'static') return b.regex.test(a.value)
+  if (a.kind === 'mixed' && b.kind === 'mixed') {
+    // Two mixed segments can share a URL only if their literal ends agree
+    const agree = (x: string, y: string, fits: (long: string, short: string) => boolean) =>
+      x.length >= y.length ? fits(x, y) : fits(y, x)
+    return agree(a.prefix, b.prefix, (long, short) => long.startsWith(short)) &&
+      agree(a.suffix, b.suffix, (long, short) => long.endsWith(short))
+  }
+  if (a.kind === 'static') return b.kind !== 'param' || !b.constraint || constraintAccepts(b.constraint, a.value)
+  if (b.kind === 'static') return segmentsOverlap(b, a)
+  if (a.kind === 'param' && b.kind === 'param' && a.constraint && b.constraint) return a.constraint === b.constraint
+  return true
+}
+
+/** A rest segment is always last and needs at least one segment to match. */
+function restIndex(segments: Segment[]): number {
+  return segments.findIndex(segment => segment.kind === 'rest')
+}
+
+function formCovers(a: Segment[], b: Segment[]): boolean {
+  const restA = restIndex(a)
+  const restB = restIndex(b)
+  if (restA === -1) {
+    return restB === -1 && a.length === b.length && a.every((segment, i) => segmentCovers(segment, b[i]))
+  }
+  if (restB === -1 ? b.length < a.length : restB < restA) return false
+  return a.slice(0, restA).every((segment, i) => segmentCovers(segment, b[i]))
+}
+
+function formsOverlap(a: Segment[], b: Segment[]): boolean {
+  const restA = restIndex(a)
+  const restB = restIndex(b)
+  if (restA === -1 && restB === -1 && a.length !== b.length) return false
+  if (restA !== -1 && restB === -1 && b.length < a.length) return false
+  if (restB !== -1 && restA === -1 && a.length < b.length) return false
+  const fixed = Math.min(restA === -1 ? a.length : restA, restB === -1 ? b.length : restB)
+  for (let i = 0; i < fixed; i++) {
+    if (!segmentsOverlap(a[i], b[i])) return false
+  }
+  return true
+}
+
+/** `a` matches every URL `b` matches; optional `:param?` paths are checked in both forms. */
+function pathCovers(a: string, b: string): boolean {
+  const formsA = expandOptionalSegments(a).map(parseSegments)
+  return expandOptionalSegments(b).map(parseSegments).every(formB => formsA.some(formA => formCovers(formA, formB)))
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+  const formsB = expandOptionalSegments(b).map(parseSegments)
+  return expandOptionalSegments(a).map(parseSegments).some(formA => formsB.some(formB => formsOverlap(formA, formB)))
+}
+
+/**
+ * How a route loses URLs to a route registered before it:
+ * - `ambiguous` — same method, exactly the same URLs (`/api/:id` vs `/api/:slug`)
+ * - `shadowed` — the earlier route matches every URL, so this one is unreachable
+ * - `overlap` — the earlier route takes some URLs although it is not more specific
+ */
+export type RouteOverlapKind = 'ambiguous' | 'shadowed' | 'overlap'
+
+/**
+ * Check `added` routes, in registration order, against everything registered
+ * before each of them (`earlier` first). A route is reported at most once,
+ * against the first earlier route it loses URLs to. Overlaps where the earlier
+ * route is strictly more specific — `/api/users` before `/api/:id` — are the
+ * intended outcome of specificity ordering and are not reported.
+ */
+export function analyzeRouteOverlaps<T extends OrderedRoute>(
+  earlier: readonly T[],
+  added: readonly T[]
+): Array<{ kind: RouteOverlapKind; route: T; shadowedBy: T }> {
+  const isAll = (route: OrderedRoute) => route.method.toLowerCase() === ALL_METHODS_PREFIX
+  const registered = [...earlier]
+  const overlaps: Array<{ kind: RouteOverlapKind; route: T; shadowedBy: T }> = []
+  for (const route of added) {
+    for (const before of registered) {
+      if (!isAll(before) && before.method.toUpperCase() !== route.method.toUpperCase()) continue
+      if (pathCovers(before.path, route.path)) {
+        const sameMethod = before.method.toUpperCase() === route.method.toUpperCase()
+        const kind = sameMethod && pathCovers(route.path, before.path) ? 'ambiguous' : 'shadowed'
+        overlaps.push({ kind, route, shadowedBy: before })
+        break
+      }
+      if (compareSpecificity(route.path, before.path) <= 0 && pathsOverlap(before.path, route.path)) {
+        overlaps.push({ kind: 'overlap', route, shadowedBy: before })
+        break
+      }
+    }
+    registered.push(route)
+  }
+  return overlaps
+}
+
+/**
+ * The first of `earlier` that takes some of `route`'s URLs although `route`
+ * is more specific — how a route registered after the others, by a watch-mode
+ * reload, ends up behind a param route a restart would put it before.
+ */
+export function findMisorderedRoute<T extends OrderedRoute>(earlier: readonly T[], route: T): T | undefined {
+  return earlier.find(before =>
+    (before.method.toLowerCase() === ALL_METHODS_PREFIX || before.method.toUpperCase() === route.method.toUpperCase()) &&
+    compareSpecificity(route.path, before.path) < 0 &&
+    pathsOverlap(before.path, route.path)
+  )
+}
+
+/** `file` for file-based routes, `METHOD /path` for static ones. */
+function describeSource(route: RegisteredRoute): string {
+  return route.file ?? `${route.method} ${route.path}`
+}
+
+/**
+ * Report `ambiguous`, `shadowed` and `overlap` findings for `added` routes
+ * against the `earlier` ones, and return them. `scanRoutes` reports through
+ * it without an app, so its diagnostics match `loadRoutes`'.
+ */
+export function reportRouteOverlaps(earlier: readonly RegisteredRoute[], added: readonly RegisteredRoute[], report: ReportFn, locale?: Locale): RouteOverlap[] {
+  const msg = getMessages(locale)
+  const overlaps = analyzeRouteOverlaps(earlier, added)
+  for (const { kind, route, shadowedBy } of overlaps) {
+    const first = `${shadowedBy.method} ${shadowedBy.path}`
+    const second = `${route.method} ${route.path}`
+    const [code, headline, detail] = kind === 'ambiguous'
+      ? ['AR_AMBIGUOUS_ROUTES', msg.ambiguousRoutes(first, second), msg.ambiguousDetail(describeSource(shadowedBy), describeSource(route))] as const
+      : kind === 'shadowed'
+        ? ['AR_SHADOWED_ROUTE', msg.shadowedRoute(first, second), msg.shadowedDetail(describeSource(shadowedBy), describeSource(route))] as const
+        : ['AR_OVERLAPPING_ROUTES', msg.overlappingRoutes(first, second), msg.overlappingDetail(describeSource(shadowedBy), describeSource(route))] as const
+    report(
+      { code, severity: 'warn', file: route.file, route: second, message: `${headline} — ${detail}` },
+      [`⚠️  ${headline}`, `   ⚠️  ${detail}`]
+    )
+  }
+  return overlaps
+}
+
+/**
+ * Report overlaps of newly registered routes against everything already on
+ * the app, and record them on `app.$routes.overlaps`.
+ */
+export function recordRouteOverlaps(app: AppLike, added: RegisteredRoute[], report: ReportFn, locale?: Locale): void {
+  const registered = app.$registeredPatterns ?? []
+  const overlaps = reportRouteOverlaps(registered, added, report, locale)
+  if (app.$routes && overlaps.length > 0) {
+    (app.$routes.overlaps ??= []).push(...overlaps)
+  }
+  app.$registeredPatterns = [...registered, ...added]
+}
@@ -1,10 +1,25 @@
-import { isRouteConfig, type AppLike, type RouteInfo, type RouteMiddleware } from './handler'
-import { resolveAuth, ForcePatternTracker, type LogFn } from './auth-resolver'
-import { validateRouteName, normalizeParamNames } from './parse-route'
+import { isRouteConfig, type AppLike, type RouteInfo, type RouteMiddleware, type RegisteredRoute } from './handler'
+import { resolveAuth, ForcePatternTracker } from './auth-resolver'
+import {
+  validateRouteName,
+  validateUniqueParamNames,
+  normalizeParamNames,
+  expandOptionalSegments,
+  resolvePathCase,
+  applyPathCase,
+  type PathCase,
+} from './parse-route'
+import { HTTP_METHODS } from './constants'
+import { recordRouteOverlaps } from './route-order'
+import { checkParamNames, resolveParamNameConsistency, type ParamNameConsistency } from './param-names'
+import { collectErrors, createRouteErrors, resolveErrorPolicy, type ErrorPolicy } from './route-errors'
+import { createReporter, type DiagnosticCode, type ReportFn, type RouteDiagnostic } from './diagnostics'
+import { getMessages, resolveLocale, type Locale } from './messages'
+import { createLogger, resolveLogFormat, resolveLogLevel, type LogFields, type LogFormat, type LoggerOptions, type LogLevel, type OnLogLevel } from './logger'
 
 /** Static route entry — callers statically import handlers and declare method/path. */
 export interface StaticRoute {
-  /** HTTP method, e.g. 'get', 'post', 'put', 'delete', 'patch'. */
+  /** HTTP method, e.g. 'get', 'post', 'put', 'delete', 'patch', or 'all' for app.all(). */
   method: string
   /** Full route path, e.g. '/api/v1/auth/login'. */
   path: string
@@ -13,7 +28,7 @@ export interface StaticRoute {
 }
 
 /** staticAutoRouter configuration. */
-export interface StaticAutoRouterOptions {
+export interface StaticAutoRouterOptions<TLogLevel extends LogLevel = Exclude<LogLevel, 'debug'>> {
   /** Static route list. */
   routes: StaticRoute[]
   /** Global default auth requirement. */
@@ -22,14 +37,37 @@ export interface StaticAutoRouterOptions {
   forcePublic?: string[]
   /** Routes forced protected. */
   forceProtected?: string[]
+  /**
+   * Expected casing of static path text, as in autoRouter. Static paths are
+   * registered as written; a path that does not follow it logs a warning.
+   */
+  pathCase?: PathCase
+  /**
+   * Report params named differently at the same position across the list,
+   * as in autoRouter; `'error'` also skips the routes using another name.
+   */
+  paramNameConsistency?: ParamNameConsistency
+  /**
+   * `'throw'` rejects the plugin promise with an AggregateError listing every
+   * skipped route and why, once the list is registered (default: `'log'`).
+   */
+  onError?: ErrorPolicy
+  /** Language of log lines and diagnostic messages, as in autoRouter (default: `'en'`). */
+  locale?: Locale
   /** Whether to print registration logs. */
   logging?: boolean
-  /** Custom log sink. */
-  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void
+  /** Lowest level logged, as in autoRouter (default: `'info'`); `'warn'` drops the per-route lines. */
+  logLevel?: TLogLevel
+  /** `'json'` logs one JSON object per line, with method, path and requiresAuth on route lines (default: `'pretty'`). */
+  logFormat?: LogFormat
+  /** Custom log sink; it receives `'debug'` lines only under `logLevel: 'debug'`. */
+  onLog?: (level: OnLogLevel<TLogLevel>, message: string) => void
+  /** Structured sink for warnings and errors, as in autoRouter; when set, they no longer reach `onLog`. */
+  onDiagnostic?: (diagnostic: RouteDiagnostic) => void
 }
 
 /** Static router plugin for runtimes without filesystem access. */
-export function staticAutoRouter(options: StaticAutoRouterOptions) {
+export function staticAutoRouter<TLogLevel extends LogLevel = Exclude<LogLevel, 'debug'>>(options: StaticAutoRouterOptions<TLogLevel>) {
   const {
     routes,
     defaultRequiresAuth = false,
@@ -37,34 +75,26 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
     forceProtected,
     logging = true,
     onLog,
+    onDiagnostic,
   } = options
-
-  const log: LogFn = (level, message) => {
-    if (onLog) {
-      onLog(level, message)
-      return
-    }
-
-    if (!logging) return
-
-    switch (level) {
-      case 'info':
-        console.log(message)
-        break
-      case 'warn':
-        console.warn(message)
-        break
-      case 'error':
-        console.error(message)
-        break
-    }
-  }
+  const locale = resolveLocale(options.locale)
+  const msg = getMessages(locale)
+  const pathCase = resolvePathCase(options.pathCase, locale)
+  const paramNameConsistency = resolveParamNameConsistency(options.paramNameConsistency, locale)
+  const onError = resolveErrorPolicy(options.onError, locale)
+  const logFormat = resolveLogFormat(options.logFormat, locale)
+  const log = createLogger({ logLevel: resolveLogLevel(options.logLevel, locale), logFormat, logging, onLog: onLog as LoggerOptions['onLog'] })
 
   return async function (app: AppLike) {
     if (!app) {
       throw new Error('Static auto-router plugin requires an application instance')
     }
 
+    const problems: RouteDiagnostic[] = []
+    const report: ReportFn = collectErrors(createReporter(log, onDiagnostic, logFormat), problems)
+    const skipRoute = (code: DiagnosticCode, method: string, routePath: string, message: string) =>
+      report({ code, severity: 'error', route: `${method.toUpperCase()} ${routePath}`, message }, [`❌ ${msg.skipRoute(routePath)}: ${message}`])
+
     if (!app.$routes) {
       app.$routes = { publicRoutes: [], protectedRoutes: [], all: [] }
     }
@@ -75,44 +105,86 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
 
     const registeredRoutes: Set<string> = app.$registeredRoutes
     const tracker = new ForcePatternTracker()
+    // Every declared method counts as a known method for `METHOD /path` patterns.
+    const methods = [...new Set([...HTTP_METHODS, ...routes.map(route => route.method.toLowerCase())])]
 
-    log('info', `🔄 Loading ${routes.length} static routes`)
+    log('info', `🔄 ${msg.loadingStatic(routes.length)}`)
 
-    const routeLogLines: Array<{ path: string; method: string; line: string }> = []
+    const routeLogLines: Array<{ path: string; method: string; line: string; fields: LogFields }> = []
+    // Static routes register in list order, so a broad pattern listed early wins.
+    const registered: RegisteredRoute[] = []
+    const inconsistentRoutes = paramNameConsistency
+      ? new Set([...checkParamNames(routes.map(route => ({ method: route.method.toUpperCase(), path: route.path, route })), paramNameConsistency, report, locale)].map(({ route }) => route))
+      : new Set<StaticRoute>()
 
-    for (const { method, path: routePath, handler: rawHandler } of routes) {
+    for (const route of routes) {
+      const { method, path: routePath, handler: rawHandler } = route
+      if (inconsistentRoutes.has(route)) continue
       const normalizedMethod = method.toLowerCase()
 
+      if (typeof app[normalizedMethod] !== 'function') {
+        skipRoute('AR_UNSUPPORTED_METHOD', method, routePath, msg.staticUnsupportedMethod(normalizedMethod))
+        continue
+      }
+
       // Reject routes whose path uses the file-name [param] syntax — static routes
       // must be written in Express-style `:param` form directly.
       if (routePath.includes('[') || routePath.includes(']')) {
         try {
-          validateRouteName(routePath)
+          validateRouteName(routePath, { locale })
         } catch (err) {
-          log('error', `❌ Skip route ${routePath}: ${err instanceof Error ? err.message : String(err)}`)
+          skipRoute('AR_INVALID_ROUTE_PATH', method, routePath, err instanceof Error ? err.message : String(err))
           continue
         }
-        log(
-          'error',
-          `❌ Skip route ${routePath}: use Express-style :param (e.g. '/users/:id') — file-name [param] syntax is not valid in static routes`
-        )
+        skipRoute('AR_INVALID_ROUTE_PATH', method, routePath, msg.staticBracketPath)
+        continue
+      }
+
+      try {
+        validateUniqueParamNames(routePath, locale)
+      } catch (err) {
+        skipRoute('AR_REPEATED_PARAM', method, routePath, err instanceof Error ? err.message : String(err))
         continue
       }
 
-      const routeKey = `${normalizedMethod.toUpperCase()} ${normalizeParamNames(routePath)}`
+      if (pathCase) {
+        let expected: string
+        try {
+          expected = applyPathCase(routePath, pathCase)
+        } catch (err) {
+          expected = routePath
+          const message = msg.staticPathCaseFailed(routePath, err instanceof Error ? err.message : String(err))
+          report({ code: 'AR_PATH_CASE_FAILED', severity: 'warn', route: `${method.toUpperCase()} ${routePath}`, message }, [`⚠️  ${message}`])
+        }
+        if (expected !== routePath) {
+          const message = msg.staticPathCaseMismatch(routePath, expected)
+          report({ code: 'AR_PATH_CASE_MISMATCH', severity: 'warn', route: `${method.toUpperCase()} ${routePath}`, message }, [`⚠️  ${message}`])
+        }
+      }
+
+      // An optional `:param?` path claims both of its expanded forms.
+      const routeKeys = expandOptionalSegments(routePath).map(
+        pattern => `${normalizedMethod.toUpperCase()} ${normalizeParamNames(pattern)}`
+      )
+      const duplicateKey = routeKeys.find(routeKey => registeredRoutes.has(routeKey))
 
-      if (registeredRoutes.has(routeKey)) {
-        log('error', `❌ Duplicate route: ${routeKey} — skipped`)
+      if (duplicateKey) {
+        report(
+          { code: 'AR_DUPLICATE_ROUTE', severity: 'error', route: `${method.toUpperCase()} ${routePath}`, message: msg.duplicateRoute(duplicateKey) },
+          [`❌ ${msg.duplicateRouteSkipped(duplicateKey)}`]
+        )
         continue
       }
-      registeredRoutes.add(routeKey)
+      for (const routeKey of routeKeys) {
+        registeredRoutes.add(routeKey)
+      }
 
       let handler = rawHandler
       let routeMeta: { requiresAuth?: boolean } | undefined
       let routeMiddlewares: RouteMiddleware[] | undefined
 
       if (handler === undefined || handler === null) {
-        log('error', `❌ Skip route ${routePath}: handler is null/undefined`)
+        skipRoute('AR_INVALID_HANDLER', method, routePath, msg.nullHandler)
         continue
       }
 
@@ -128,7 +200,7 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
         routeMiddlewares = raw.middlewares
         handler = raw.handler
       } else {
-        log('error', `❌ Skip route ${routePath}: invalid handler type (expected function or createHandler result)`)
+        skipRoute('AR_INVALID_HANDLER', method, routePath, msg.invalidHandler)
         continue
       }
 
@@ -139,6 +211,7 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
         defaultRequiresAuth,
         forcePublic,
         forceProtected,
+        methods,
       })
 
       tracker.addMatch(authResult.matchedPublicPattern, authResult.matchedProtectedPattern)
@@ -158,6 +231,7 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
         path: routePath,
         method: normalizedMethod.toUpperCase(),
         line: `✅ ${normalizedMethod.toUpperCase().padEnd(7)} ${routePath}${authMark}`,
+        fields: { method: normalizedMethod.toUpperCase(), path: routePath, requiresAuth: authResult.requiresAuth },
       })
 
       const routeInfo: RouteInfo = { method: normalizedMethod.toUpperCase(), path: routePath, requiresAuth: authResult.requiresAuth }
@@ -172,22 +246,27 @@ export function staticAutoRouter(options: StaticAutoRouterOptions) {
       }
 
       (app as Record<string, Function>)[normalizedMethod](routePath, ...(routeMiddlewares ?? []), handler)
+      registered.push({ method: normalizedMethod.toUpperCase(), path: routePath })
     }
+    recordRouteOverlaps(app, registered, report, locale)
 
     routeLogLines.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
-    for (const { line } of routeLogLines) {
-      log('info', line)
+    for (const { line, fields } of routeLogLines) {
+      log('info', line, fields)
     }
 
-    tracker.logWarnings(log, forcePublic, forceProtected)
+    tracker.logWarnings(report, forcePublic, forceProtected, locale)
 
-    log('info', `📋 Registered routes:`)
-    if (app.$routes.all.length === 0) {
-      log('warn', `⚠️  No routes registered!`)
+    const { all, publicRoutes, protectedRoutes } = app.$routes
+    log('info', `📋 ${msg.registeredRoutes}`, { total: all.length, publicRoutes: publicRoutes.length, protectedRoutes: protectedRoutes.length })
+    if (all.length === 0) {
+      report({ code: 'AR_NO_ROUTES', severity: 'warn', message: msg.noRoutes }, [`⚠️  ${msg.noRoutesWarning}`])
     } else {
-      log('info', `   Total: ${app.$routes.all.length}`)
-      log('info', `   Public: ${app.$routes.publicRoutes.length}`)
-      log('info', `   Protected: ${app.$routes.protectedRoutes.length}`)
+      log('info', `   ${msg.total(all.length)}`)
+      log('info', `   ${msg.publicCount(publicRoutes.length)}`)
+      log('info', `   ${msg.protectedCount(protectedRoutes.length)}`)
     }
+
+    if (onError === 'throw' && problems.length > 0) throw createRouteErrors('staticAutoRouter', problems, locale)
   }
 }
\ No newline at end of file
@@ -1,59 +1,102 @@
 /**
  * Shared file-name and directory-name validation for auto-router.
  */
-import { HTTP_METHODS } from './constants'
-import { validateRouteName } from './parse-route'
+import { HTTP_METHODS, ALL_METHODS_PREFIX, TRAILING_SLASH_POLICIES, type TrailingSlashPolicy } from './constants'
+import { validateRouteName, type RouteNameOptions } from './parse-route'
+import { getMessages, type Locale, type Messages } from './messages'
+
+const METHOD_NAME = /^[a-z][a-z0-9]*$/
+
+export interface FileNameOptions extends RouteNameOptions {
+  /**
+   * Accepted method prefixes, lowercase. Defaults to `HTTP_METHODS`; see
+   * `resolveMethods`. The `all` prefix is accepted regardless.
+   */
+  methods?: readonly string[]
+}
 
 export interface FileNameValidation {
   valid: boolean
+  /** First declared method, e.g. `get` for `get+head-users.ts` */
   method?: string
+  /** Every declared method, in file-name order, e.g. `['get', 'head']` */
+  methods?: string[]
+  /** File name after the method prefix, e.g. `users`; empty for `get.ts` */
+  routeName?: string
   error?: string
 }
 
+/**
+ * Check declared methods against the accepted set (`all` included); `source`
+ * is the file-name text they came from, quoted in the error.
+ */
+function methodListError(declaredMethods: readonly string[], source: string, methods: readonly string[], msg: Messages): string | undefined {
+  for (const declaredMethod of declaredMethods) {
+    if (methods.includes(declaredMethod)) continue
+    const lowerCased = declaredMethod.toLowerCase()
+    return methods.includes(lowerCased)
+      ? msg.methodPrefixCase(declaredMethod, lowerCased)
+      : msg.unknownMethod(declaredMethod, source, methods.join('|'))
+  }
+  if (declaredMethods.length > 1 && declaredMethods.includes(ALL_METHODS_PREFIX)) {
+    return msg.combinedAllMethod(source)
+  }
+  const repeated = declaredMethods.find((method, i) => declaredMethods.indexOf(method) !== i)
+  if (repeated) {
+    return msg.repeatedMethod(repeated, source)
+  }
+  return undefined
+}
+
 /**
  * Validate a route file name.
  *
  * Accepts:
  * - Exact HTTP method (e.g. `get.ts`, `post.ts`)
  * - Method-prefixed with dash (e.g. `get-users.ts`, `post-[id].ts`)
+ * - The catch-any-method `all` prefix (e.g. `all-health.ts`)
+ * - Several methods joined with `+` (e.g. `get+head-users.ts`, `put+patch.ts`)
  * Rejects:
  * - Wrong-cased method prefix (e.g. `GET-users.ts`, `Post-users.ts`)
+ * - Unknown, repeated or `all` methods in a `+` list (e.g. `get+foo-users.ts`)
  * - Malformed [param] syntax (e.g. `get-[].ts`, `get-[a][b].ts`)
+ * - Unknown param types (e.g. `get-[id:num].ts` without a `num` type)
  * - Unknown file names
  */
-export function validateFileName(fileName: string): FileNameValidation {
+export function validateFileName(fileName: string, options: FileNameOptions = {}): FileNameValidation {
   const nameWithoutExt = fileName.replace(/\.(ts|js)$/, '')
+  const methods = [...(options.methods ?? HTTP_METHODS), ALL_METHODS_PREFIX]
+  const msg = getMessages(options.locale)
 
-  if ((HTTP_METHODS as readonly string[]).includes(nameWithoutExt)) {
-    return { valid: true, method: nameWithoutExt }
-  }
+  // Method names contain no `-`, so the prefix is everything before the first dash
+  const prefixEnd = nameWithoutExt.indexOf('-')
+  const prefix = prefixEnd === -1 ? nameWithoutExt : nameWithoutExt.slice(0, prefixEnd)
+  const routeName = prefixEnd === -1 ? '' : nameWithoutExt.slice(prefixEnd + 1)
 
-  let matchedMethod: string | undefined
-  for (const method of HTTP_METHODS) {
-    if (nameWithoutExt.startsWith(method + '-')) {
-      matchedMethod = method
-      break
-    }
-  }
-
-  if (!matchedMethod) {
-    const wrongCasedMethod = HTTP_METHODS.find(method => nameWithoutExt.toLowerCase().startsWith(method + '-'))
+  let declaredMethods: string[]
+  if (prefix.includes('+')) {
+    declaredMethods = prefix.split('+')
+    const error = methodListError(declaredMethods, prefix, methods, msg)
+    if (error) return { valid: false, error }
+  } else if (methods.includes(prefix)) {
+    declaredMethods = [prefix]
+  } else {
+    const wrongCasedMethod = methods.find(method => nameWithoutExt.toLowerCase().startsWith(method + '-'))
     if (wrongCasedMethod) {
       return {
         valid: false,
-        error: `File name uses "${nameWithoutExt.slice(0, wrongCasedMethod.length)}" — HTTP method prefix must be lowercase, e.g. "${wrongCasedMethod}-..."`,
+        error: msg.methodPrefixCase(nameWithoutExt.slice(0, wrongCasedMethod.length), `${wrongCasedMethod}-...`),
       }
     }
     return {
       valid: false,
-      error: `File name must be a valid HTTP method or start with method- (${HTTP_METHODS.join('|')})`,
+      error: msg.invalidFileName(methods.join('|')),
     }
   }
 
-  const routeName = nameWithoutExt === matchedMethod ? '' : nameWithoutExt.substring(matchedMethod.length + 1)
   if (routeName) {
     try {
-      validateRouteName(routeName)
+      validateRouteName(routeName, options)
     } catch (err) {
       return {
         valid: false,
@@ -62,10 +105,148 @@ export function validateFileName(fileName: string): FileNameValidation {
     }
   }
 
-  return { valid: true, method: matchedMethod }
+  return { valid: true, method: declaredMethods[0], methods: declaredMethods, routeName }
 }
 
 /** Check whether a directory name is an HTTP method keyword (case-insensitive). */
-export function isHttpMethodKeyword(name: string): boolean {
-  return (HTTP_METHODS as readonly string[]).includes(name.toLowerCase())
-}
\ No newline at end of file
+export function isHttpMethodKeyword(name: string, methods: readonly string[] = HTTP_METHODS): boolean {
+  return methods.includes(name.toLowerCase())
+}
+
+/**
+ * Normalize a configured method set: lowercased, de-duplicated, `all` dropped
+ * (it is always accepted). Throws on names that cannot be a file-name prefix.
+ */
+export function resolveMethods(methods?: readonly string[], locale?: Locale): readonly string[] {
+  if (!methods) return HTTP_METHODS
+  const msg = getMessages(locale)
+  const resolved = new Set<string>()
+  for (const method of methods) {
+    const name = typeof method === 'string' ? method.toLowerCase() : ''
+    if (!METHOD_NAME.test(name)) {
+      throw new Error(msg.invalidMethodName(method))
+    }
+    if (name !== ALL_METHODS_PREFIX) resolved.add(name)
+  }
+  if (resolved.size === 0) {
+    throw new Error(msg.noMethods)
+  }
+  return [...resolved]
+}
+
+/** A `route.ts` module's export names, sorted against the method set. */
+export interface ModuleExports {
+  /** Uppercase method exports, in method-set order with `ALL` last */
+  methods: string[]
+  /** Exports that are neither a method nor `default` */
+  unknown: string[]
+  hasDefault: boolean
+}
+
+/**
+ * Sort a `route.ts` module's export names — imported by `loadRoutes`, read
+ * from source by the manifest builder — so both apply one rule: a default
+ * export, or any export but an uppercase method, rejects the module.
+ */
+export function classifyModuleExports(exportNames: readonly string[], methods: readonly string[]): ModuleExports {
+  const exportMethods = [...methods, ALL_METHODS_PREFIX].map(method => method.toUpperCase())
+  return {
+    methods: exportMethods.filter(method => exportNames.includes(method)),
+    unknown: exportNames.filter(name => name !== 'default' && !exportMethods.includes(name)),
+    hasDefault: exportNames.includes('default'),
+  }
+}
+
+/** Check a `trailingSlash` option value, passing undefined through. */
+export function resolveTrailingSlash(policy?: TrailingSlashPolicy, locale?: Locale): TrailingSlashPolicy | undefined {
+  if (policy === undefined || (TRAILING_SLASH_POLICIES as readonly string[]).includes(policy)) return policy
+  throw new Error(getMessages(locale).invalidTrailingSlash(String(policy), TRAILING_SLASH_POLICIES.map(p => `'${p}'`).join(', ')))
+}
+
+/** A file name split into its declared method(s) and route name. */
+export interface ParsedFileName {
+  /** Lowercase method or methods, e.g. `'get'`, `['get', 'head']` or `'all'` */
+  method: string | readonly string[]
+  /** Route name in file-name syntax, e.g. `users-[id]`; empty for the directory's own path */
+  routeName: string
+}
+
+/**
+ * Split a route file name (`users.get.ts`) into method(s) and route name, or
+ * return null when it does not follow the convention. A thrown error's
+ * message is logged as the reason the file was skipped.
+ */
+export type FileNameParser = (fileName: string) => ParsedFileName | null
+
+/**
+ * Built-in file-name conventions: `'method-name'` (`get-users.ts`, the
+ * default), `'name.method'` (`users.get.ts`) and `'next'` (`users/[id].ts`,
+ * Next.js pages style — every method, `index.ts` for the directory itself).
+ */
+export type FileNamePreset = 'method-name' | 'name.method' | 'next'
+
+/** `validateFileName` or a resolved `parseFileName` option. */
+export type FileNameValidator = (fileName: string, options?: FileNameOptions) => FileNameValidation
+
+const FILE_NAME_PRESETS: Readonly<Record<Exclude<FileNamePreset, 'method-name'>, FileNameParser>> = {
+  // The last dot-separated part names the method(s): `[id].delete.ts`, `get.ts`
+  'name.method': (fileName) => {
+    const name = fileName.replace(/\.(ts|js)$/, '')
+    const methodStart = name.lastIndexOf('.')
+    return {
+      method: name.slice(methodStart + 1).split('+'),
+      routeName: methodStart === -1 ? '' : name.slice(0, methodStart),
+    }
+  },
+  next: (fileName) => {
+    const name = fileName.replace(/\.(ts|js)$/, '')
+    return { method: ALL_METHODS_PREFIX, routeName: name === 'index' ? '' : name }
+  },
+}
+
+/**
+ * Resolve the `parseFileName` option into a validator with the result shape
+ * of `validateFileName`, which the default `'method-name'` convention uses
+ * as is. Other parsers have their methods and route name checked the same way.
+ */
+export function resolveFileNameParser(parseFileName?: FileNamePreset | FileNameParser, locale?: Locale): FileNameValidator {
+  if (parseFileName === undefined || parseFileName === 'method-name') return validateFileName
+  const parser = typeof parseFileName === 'function'
+    ? parseFileName
+    : Object.prototype.hasOwnProperty.call(FILE_NAME_PRESETS, parseFileName)
+      ? FILE_NAME_PRESETS[parseFileName]
+      : undefined
+  if (!parser) {
+    throw new Error(getMessages(locale).invalidParseFileName(String(parseFileName)))
+  }
+
+  return (fileName, options = {}) => {
+    const msg = getMessages(options.locale)
+    let parsed: ParsedFileName | null
+    try {
+      parsed = parser(fileName)
+    } catch (err) {
+      return { valid: false, error: err instanceof Error ? err.message : String(err) }
+    }
+    if (!parsed) {
+      return { valid: false, error: msg.unconventionalFileName(fileName) }
+    }
+
+    const declaredMethods = typeof parsed.method === 'string' ? [parsed.method] : [...parsed.method]
+    const methods = [...(options.methods ?? HTTP_METHODS), ALL_METHODS_PREFIX]
+    const error = declaredMethods.length === 0
+      ? msg.noMethod(fileName)
+      : methodListError(declaredMethods, declaredMethods.join('+'), methods, msg)
+    if (error) return { valid: false, error }
+
+    const routeName = parsed.routeName
+    if (routeName) {
+      try {
+        validateRouteName(routeName, options)
+      } catch (err) {
+        return { valid: false, error: err instanceof Error ? err.message : String(err) }
+      }
+    }
+    return { valid: true, method: declaredMethods[0], methods: declaredMethods, routeName }
+  }
+}
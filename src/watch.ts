@@ -0,0 +1,223 @@
+/**
+ * Watch mode (`watch: true`): re-scan a controller directory when a file
+ * under it changes and bring the app up to date without a restart — new
+ * routes are registered, edited files re-imported and deleted routes
+ * stubbed through their dispatchers (see hot-routes), with `$routes`,
+ * `$registeredRoutes` and the overlap registry kept in sync and each change
+ * logged.
+ */
+import { watch, type FSWatcher } from 'fs'
+import { resolve } from 'path'
+import type { AppLike, RegisteredRoute, RouteInfo } from './handler'
+import { addToRoutesRegistry, registeredPattern, registerScannedRoute, scanControllerRoutes, type LoadRoutesOptions, type ScannedRoute } from './load-routes'
+import { createDispatcher, hotRouteKey, type HotRouteTable } from './hot-routes'
+import { findMisorderedRoute, recordRouteOverlaps } from './route-order'
+import { createReporter, type ReportFn } from './diagnostics'
+import { getMessages } from './messages'
+import { createLogger, type LogFields } from './logger'
+
+/** Quiet period after the last file event before reloading, so one save reloads once. */
+const RELOAD_DELAY_MS = 100
+
+/** A config registered in watch mode, with the table its routes dispatch through. */
+export interface WatchedConfig {
+  options: LoadRoutesOptions
+  table: HotRouteTable
+}
+
+/** Whether a route that is still there got new handlers, middlewares or route info. */
+function routeChanged(previous: ScannedRoute, next: ScannedRoute): boolean {
+  return (
+    previous.handlers.length !== next.handlers.length ||
+    previous.handlers.some((handler, i) => handler !== next.handlers[i]) ||
+    JSON.stringify(previous.routeInfo) !== JSON.stringify(next.routeInfo)
+  )
+}
+
+/** Remove a route's `RouteInfo` and its public/protected entry from `app.$routes`, in place. */
+function removeFromRoutesRegistry(app: AppLike, routeInfo: RouteInfo): void {
+  const { all, publicRoutes, protectedRoutes } = app.$routes!
+  const index = all.indexOf(routeInfo)
+  if (index !== -1) all.splice(index, 1)
+  const entries = routeInfo.requiresAuth ? protectedRoutes : publicRoutes
+  const entryIndex = entries.findIndex(({ method, path }) => method === routeInfo.method && path === routeInfo.path)
+  if (entryIndex !== -1) entries.splice(entryIndex, 1)
+}
+
+/**
+ * Re-scan one watched config and apply the difference to `app`: its
+ * duplicate-detection keys are released and claimed again, routes that are
+ * gone get an empty chain, new ones are registered (or their old dispatcher
+ * revived) and changed ones get their new chain. Each change is logged
+ * under a `♻️` headline; a reload that changes nothing logs at debug.
+ */
+export async function reloadRoutes(app: AppLike, { options, table }: WatchedConfig): Promise<void> {
+  const { dir, locale } = options
+  const msg = getMessages(locale)
+  const log = createLogger(options)
+  const report = createReporter(log, options.onDiagnostic, options.logFormat)
+
+  // Release this config's keys, so its own routes are not duplicates of themselves
+  const registeredRoutes = app.$registeredRoutes!
+  for (const routeKey of table.routeKeys) {
+    registeredRoutes.delete(routeKey)
+  }
+  const claimedBefore = new Set(registeredRoutes)
+  // An unreadable directory is reported by the scan and serves no routes
+  const scannedRoutes = (await scanControllerRoutes(options, registeredRoutes, log, report)) ?? []
+  table.routeKeys = new Set([...registeredRoutes].filter(routeKey => !claimedBefore.has(routeKey)))
+
+  const scannedByKey = new Map(scannedRoutes.map(route => [hotRouteKey(route), route]))
+  const changes: Array<{ change: NonNullable<LogFields['change']>; route: ScannedRoute }> = []
+  const removed: ScannedRoute[] = []
+  const added: RegisteredRoute[] = []
+  // Registered by this reload, so first-match frameworks check them after every existing route
+  const registeredLast = new Set<RegisteredRoute>()
+  const unsupported = new Set<string>()
+
+  for (const [key, route] of table.routes) {
+    if (scannedByKey.has(key)) continue
+    table.chains.set(key, [])
+    table.routes.delete(key)
+    removeFromRoutesRegistry(app, route.routeInfo)
+    removed.push(route)
+    changes.push({ change: 'removed', route })
+  }
+
+  for (const [key, route] of scannedByKey) {
+    const previous = table.routes.get(key)
+    if (previous) {
+      if (!routeChanged(previous, route)) continue
+      table.chains.set(key, route.handlers)
+      removeFromRoutesRegistry(app, previous.routeInfo)
+      changes.push({ change: 'reloaded', route })
+    } else if (table.chains.has(key)) {
+      // Deleted earlier: its dispatcher is still registered on the app
+      table.chains.set(key, route.handlers)
+      added.push(registeredPattern(route, options.inlineParamRegex))
+      changes.push({ change: 'added', route })
+    } else {
+      table.chains.set(key, route.handlers)
+      if (!registerScannedRoute(app, route, [createDispatcher(table, key)], options, report, unsupported)) {
+        table.chains.delete(key)
+        continue
+      }
+      const registered = registeredPattern(route, options.inlineParamRegex)
+      added.push(registered)
+      registeredLast.add(registered)
+      changes.push({ change: 'added', route })
+    }
+    table.routes.set(key, route)
+    addToRoutesRegistry(app, route.routeInfo)
+  }
+
+  // Forget the overlap records of removed routes, then check the new ones
+  const removedPatterns = removed.map(route => registeredPattern(route, options.inlineParamRegex))
+  const isRemoved = ({ method, path, file }: RegisteredRoute) =>
+    removedPatterns.some(route => route.method === method && route.path === path && route.file === file)
+  app.$registeredPatterns = (app.$registeredPatterns ?? []).filter(route => !isRemoved(route))
+  if (app.$routes!.overlaps) {
+    app.$routes!.overlaps = app.$routes!.overlaps.filter(({ route, shadowedBy }) => !isRemoved(route) && !isRemoved(shadowedBy))
+  }
+  // A new route behind a less specific one is reported as out of order, not as an overlap
+  const earlier = app.$registeredPatterns
+  const misordered = added.filter(route => {
+    const before = registeredLast.has(route) ? findMisorderedRoute(earlier, route) : undefined
+    if (!before) return false
+    const first = `${before.method} ${before.path}`
+    const second = `${route.method} ${route.path}`
+    const headline = msg.routeAddedOutOfOrder(first, second)
+    const detail = msg.routeAddedOutOfOrderDetail(route.file ?? second)
+    report(
+      { code: 'AR_WATCH_ROUTE_ORDER', severity: 'warn', file: route.file, route: second, message: `${headline} — ${detail}` },
+      [`⚠️  ${headline}`, `   ⚠️  ${detail}`]
+    )
+    return true
+  })
+  recordRouteOverlaps(app, added.filter(route => !misordered.includes(route)), report, locale)
+  app.$registeredPatterns = [...app.$registeredPatterns, ...misordered]
+
+  if (changes.length === 0) {
+    log('debug', `♻️  ${msg.noRouteChanges(dir)}`)
+    return
+  }
+
+  log('info', `♻️  ${msg.routesReloaded(dir)}`)
+  const markers = { added: '➕', removed: '➖', reloaded: '🔁' } as const
+  changes.sort((a, b) => a.route.routeInfo.path.localeCompare(b.route.routeInfo.path) || a.route.routeInfo.method.localeCompare(b.route.routeInfo.method))
+  for (const { change, route: { routeInfo, filePath } } of changes) {
+    log(
+      'info',
+      `   ${markers[change]} ${routeInfo.method.padEnd(7)} ${routeInfo.path}${routeInfo.requiresAuth ? ' 🔒' : ''}`,
+      { method: routeInfo.method, path: routeInfo.path, file: filePath, requiresAuth: routeInfo.requiresAuth, change }
+    )
+  }
+  log('info', `   ${msg.total(app.$routes!.all.length)}`)
+}
+
+/**
+ * Watch the directory of every watched config, reloading its configs once
+ * file events settle. Reloads run one at a time, in config order. Returns a
+ * function that closes the watchers; they do not keep the process alive.
+ */
+export function watchRoutes(app: AppLike, configs: WatchedConfig[]): () => void {
+  const watchers: FSWatcher[] = []
+  const timers = new Set<ReturnType<typeof setTimeout>>()
+  let reloading = Promise.resolve()
+
+  // Configs of one directory (one per prefix) share its watcher
+  const configsByDir = new Map<string, WatchedConfig[]>()
+  for (const config of configs) {
+    const dir = resolve(config.options.dir)
+    configsByDir.set(dir, [...(configsByDir.get(dir) ?? []), config])
+  }
+
+  for (const [dir, dirConfigs] of configsByDir) {
+    const { options } = dirConfigs[0]
+    const msg = getMessages(options.locale)
+    const log = createLogger(options)
+    const report: ReportFn = createReporter(log, options.onDiagnostic, options.logFormat)
+    const reportFailure = (err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err)
+      report({ code: 'AR_WATCH_FAILED', severity: 'error', file: dir, message }, [`❌ ${msg.watchFailed}: ${dir}`, `   ❌ ${message}`])
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const scheduleReload = () => {
+      if (timer) {
+        clearTimeout(timer)
+        timers.delete(timer)
+      }
+      timer = setTimeout(() => {
+        timers.delete(timer!)
+        reloading = reloading
+          .then(async () => {
+            for (const config of dirConfigs) {
+              await reloadRoutes(app, config)
+            }
+          })
+          .catch(reportFailure)
+      }, RELOAD_DELAY_MS)
+      timers.add(timer)
+    }
+
+    try {
+      const watcher = watch(dir, { recursive: true }, scheduleReload)
+      watcher.on('error', reportFailure)
+      watcher.unref()
+      watchers.push(watcher)
+      log('info', `👀 ${msg.watching(options.dir)}`)
+    } catch (err: unknown) {
+      reportFailure(err)
+    }
+  }
+
+  return () => {
+    for (const timer of timers) {
+      clearTimeout(timer)
+    }
+    for (const watcher of watchers) {
+      watcher.close()
+    }
+  }
+}
@@ -1,4 +1,9 @@
 import { isRouteConfig, type RouteMiddleware } from './handler'
+import type { TrailingSlashPolicy } from './constants'
+import { resolveTrailingSlash } from './validation'
+import { unescapeStaticText } from './parse-route'
+
+export type { TrailingSlashPolicy }
 
 // ExecutionContext type for Cloudflare Workers — users should install @cloudflare/workers-types
 // If not available, falls back to unknown
@@ -17,43 +22,149 @@ export interface WorkerRouteContext<TEnv = unknown, TCtx = ExecutionContext> {
 }
 
 export interface WorkerManifestRoute<TEnv = unknown, TCtx = ExecutionContext> {
-  /** Express-style path pattern, e.g. '/api/users/:id' */
+  /**
+   * Express-style path pattern, e.g. '/api/users/:id', '/api/users/:id(\d+)',
+   * '/api/posts/:page?' or '/api/docs/*path'
+   */
   pattern: string
-  /** HTTP method, e.g. 'GET', 'POST' */
+  /** HTTP method, e.g. 'GET', 'POST', or 'ALL' to match any method */
   method: string
   /** Route handler function or createHandler result */
   handler: unknown
   /** Route-level middleware chain, run before the handler */
   middlewares?: RouteMiddleware<WorkerRouteContext<TEnv, TCtx>>[]
+  /**
+   * Default exports of the `_middleware` files above the route, root first.
+   * Each entry is a middleware or an array of them; they run before all others.
+   */
+  directoryMiddlewares?: Array<RouteMiddleware<WorkerRouteContext<TEnv, TCtx>> | RouteMiddleware<WorkerRouteContext<TEnv, TCtx>>[]>
 }
 
 export interface WorkerRouterOptions<TEnv = unknown, TCtx = ExecutionContext> {
   routes: WorkerManifestRoute<TEnv, TCtx>[]
   notFound?: (req: Request, env: TEnv, ctx: TCtx) => Response | Promise<Response>
+  /**
+   * Handling of a trailing slash on any path but `/` (default: 'ignore').
+   * 'strict' does not match `/api/users/` against `/api/users`; 'redirect'
+   * answers 308 with the slash removed when that path has a route.
+   */
+  trailingSlash?: TrailingSlashPolicy
   onError?: (err: unknown, req: Request, env: TEnv, ctx: TCtx) => Response | Promise<Response>
 }
 
 type MatchResult = { params: Record<string, string> } | null
 
-function matchRoute(pattern: string, pathname: string): MatchResult {
-  const patternSegments = pattern.split('/').filter(Boolean)
+type PatternSegment =
+  | { type: 'static'; value: string }
+  | { type: 'param'; name: string; constraint?: RegExp }
+  | { type: 'rest'; name: string }
+  | { type: 'mixed'; names: string[]; regex: RegExp }
+
+interface CompiledPattern {
+  segments: PatternSegment[]
+  /** The last segment (`:name?` / `*name?`) may be absent entirely */
+  optional: boolean
+}
+
+/**
+ * Split a pattern into typed segments once at construction time. A param's
+ * `(regex)` constraint (e.g. `:id(\d+)`) is anchored to the whole segment;
+ * params glued to static text (`:name.json`, `v:version`) compile to one
+ * anchored regex per segment.
+ */
+function compilePattern(pattern: string): CompiledPattern {
+  const rawSegments = pattern.split('/').filter(Boolean)
+  let optional = false
+  const segments = rawSegments.map((raw, i): PatternSegment => {
+    if (i === rawSegments.length - 1 && /^[:*]/.test(raw) && raw.endsWith('?')) {
+      optional = true
+      raw = raw.slice(0, -1)
+    }
+    if (raw.startsWith('*')) return { type: 'rest', name: raw.slice(1) }
+    if (raw.startsWith(':') && (raw.includes('(') || /^:[A-Za-z0-9_]+$/.test(raw))) {
+      const constraintStart = raw.indexOf('(')
+      if (constraintStart === -1 || !raw.endsWith(')')) return { type: 'param', name: raw.slice(1) }
+      return {
+        type: 'param',
+        name: raw.slice(1, constraintStart),
+        constraint: new RegExp(`^(?:${raw.slice(constraintStart + 1, -1)})$`),
+      }
+    }
+    if (/(?<!\\):[A-Za-z0-9_]/.test(raw)) {
+      const names: string[] = []
+      const source = raw
+        .split(/(?<!\\):([A-Za-z0-9_]+)/)
+        .map((part, index) => {
+          if (index % 2 === 0) return unescapeStaticText(part).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          names.push(part)
+          return '([^/]+?)'
+        })
+        .join('')
+      return { type: 'mixed', names, regex: new RegExp(`^${source}$`) }
+    }
+    return { type: 'static', value: decodeStatic(unescapeStaticText(raw)) }
+  })
+  return { segments, optional }
+}
+
+/**
+ * Decode a static segment so `/a%5Bb%5D` in a pattern and `/a[b]` in a
+ * request compare equal; a malformed escape is compared as written.
+ */
+function decodeStatic(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+function matchRoute(pattern: CompiledPattern, pathname: string): MatchResult {
   const pathSegments = pathname.split('/').filter(Boolean)
 
-  if (patternSegments.length !== pathSegments.length) return null
+  // A trailing optional segment may be absent; otherwise it matches like its
+  // required form
+  const segments = pattern.optional && pathSegments.length < pattern.segments.length
+    ? pattern.segments.slice(0, -1)
+    : pattern.segments
+
+  // A trailing `*name` rest segment matches one or more remaining segments
+  const hasRest = segments.length > 0 && segments[segments.length - 1].type === 'rest'
+  if (hasRest ? pathSegments.length < segments.length : segments.length !== pathSegments.length) return null
 
   const params: Record<string, string> = {}
-  for (let i = 0; i < patternSegments.length; i++) {
-    const patternSegment = patternSegments[i]
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]
     const valueSegment = pathSegments[i]
-    if (patternSegment.startsWith(':')) {
+    if (segment.type === 'rest') {
+      // Rest values are decoded per segment and re-joined with '/'
+      try {
+        params[segment.name] = pathSegments.slice(i).map(decodeURIComponent).join('/')
+      } catch {
+        return null
+      }
+      break
+    } else if (segment.type === 'param') {
       // decodeURIComponent can throw URIError on malformed sequences
       // Return null (no match) instead of crashing the entire request
+      let value: string
       try {
-        params[patternSegment.slice(1)] = decodeURIComponent(valueSegment)
+        value = decodeURIComponent(valueSegment)
       } catch {
         return null
       }
-    } else if (patternSegment !== valueSegment) {
+      // A value that fails the type constraint falls through to the next route
+      if (segment.constraint && !segment.constraint.test(value)) return null
+      params[segment.name] = value
+    } else if (segment.type === 'mixed') {
+      const match = segment.regex.exec(valueSegment)
+      if (!match) return null
+      try {
+        segment.names.forEach((name, index) => { params[name] = decodeURIComponent(match[index + 1]) })
+      } catch {
+        return null
+      }
+    } else if (segment.value !== valueSegment && segment.value !== decodeStatic(valueSegment)) {
       return null
     }
   }
@@ -64,6 +175,7 @@ export function createWorkerRouter<TEnv = unknown, TCtx = ExecutionContext>(
   options: WorkerRouterOptions<TEnv, TCtx>
 ): { fetch: (req: Request, env: TEnv, ctx: TCtx) => Promise<Response> } {
   const { routes, notFound, onError } = options
+  const trailingSlash = resolveTrailingSlash(options.trailingSlash) ?? 'ignore'
 
   // Unwrap createHandler results once at construction time
   const resolved = routes.map(route => {
@@ -74,7 +186,11 @@ export function createWorkerRouter<TEnv = unknown, TCtx = ExecutionContext>(
       middlewares = (handler.middlewares ?? []).concat(route.middlewares ?? [])
       handler = handler.handler
     }
-    return { pattern: route.pattern, method: route.method.toUpperCase(), handler, middlewares }
+    if (route.directoryMiddlewares) {
+      // Directory `_middleware` chains run first, root to leaf
+      middlewares = route.directoryMiddlewares.flat().concat(middlewares ?? [])
+    }
+    return { pattern: compilePattern(route.pattern), method: route.method.toUpperCase(), handler, middlewares }
   })
 
   return {
@@ -82,13 +198,25 @@ export function createWorkerRouter<TEnv = unknown, TCtx = ExecutionContext>(
       const url = new URL(req.url)
       const pathname = url.pathname
 
-      let matched: { handler: unknown; middlewares?: RouteMiddleware<WorkerRouteContext<TEnv, TCtx>>[]; params: Record<string, string> } | null = null
-      for (const route of resolved) {
-        if (route.method !== req.method.toUpperCase()) continue
-        const result = matchRoute(route.pattern, pathname)
-        if (result) {
-          matched = { handler: route.handler, middlewares: route.middlewares, params: result.params }
-          break
+      const findRoute = (path: string) => {
+        for (const route of resolved) {
+          if (route.method !== 'ALL' && route.method !== req.method.toUpperCase()) continue
+          const result = matchRoute(route.pattern, path)
+          if (result) return { handler: route.handler, middlewares: route.middlewares, params: result.params }
+        }
+        return null
+      }
+
+      // Patterns never end in '/', so only the policy decides whether
+      // `/api/users/` reaches the `/api/users` route
+      const hasTrailingSlash = pathname.length > 1 && pathname.endsWith('/')
+      const matched = hasTrailingSlash && trailingSlash !== 'ignore' ? null : findRoute(pathname)
+
+      if (!matched && hasTrailingSlash && trailingSlash === 'redirect') {
+        const canonical = pathname.replace(/\/+$/, '') || '/'
+        if (findRoute(canonical)) {
+          url.pathname = canonical
+          return Response.redirect(url.toString(), 308)
         }
       }
 